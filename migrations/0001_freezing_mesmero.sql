@@ -0,0 +1,35 @@
+CREATE TABLE "custom_personas" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"system_prompt" text NOT NULL,
+	"avatar" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "is_pinned" text DEFAULT 'false' NOT NULL;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "reactions" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "edited_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "memory" text[] DEFAULT '{}'::text[] NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "preferences" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "stripe_customer_id" varchar;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "stripe_subscription_id" varchar;--> statement-breakpoint
+ALTER TABLE "custom_personas" ADD CONSTRAINT "custom_personas_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+DO $$
+DECLARE
+	orphan_count integer;
+	orphan_conversations text;
+BEGIN
+	SELECT count(*), string_agg(DISTINCT "conversation_id", ', ')
+	INTO orphan_count, orphan_conversations
+	FROM "messages"
+	WHERE "conversation_id" NOT IN (SELECT "id" FROM "conversations");
+
+	IF orphan_count > 0 THEN
+		RAISE EXCEPTION '% messages belong to conversations that no longer exist (%)', orphan_count, orphan_conversations
+			USING HINT = 'Back up or delete these messages, or restore their conversations, then rerun the migration';
+	END IF;
+END $$;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+ALTER TABLE "conversations" ADD COLUMN "active_message_id" varchar;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "parent_id" varchar;--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_active_message_id_messages_id_fk" FOREIGN KEY ("active_message_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_parent_id_messages_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_messages_conversation" ON "messages" USING btree ("conversation_id");--> statement-breakpoint
+CREATE INDEX "IDX_messages_parent" ON "messages" USING btree ("parent_id");--> statement-breakpoint
+-- Existing threads are linear: chain each message to the one before it
+UPDATE "messages" AS m SET "parent_id" = ordered."prev_id"
+FROM (
+	SELECT "id", LAG("id") OVER (PARTITION BY "conversation_id" ORDER BY "created_at", "id") AS "prev_id"
+	FROM "messages"
+) AS ordered
+WHERE m."id" = ordered."id" AND ordered."prev_id" IS NOT NULL;--> statement-breakpoint
+UPDATE "conversations" AS c SET "active_message_id" = (
+	SELECT "id" FROM "messages" WHERE "conversation_id" = c."id" ORDER BY "created_at" DESC, "id" DESC LIMIT 1
+);
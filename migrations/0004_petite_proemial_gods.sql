@@ -0,0 +1,8 @@
+CREATE TABLE "usage_counters" (
+	"user_id" varchar NOT NULL,
+	"day" date NOT NULL,
+	"messages" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "usage_counters_user_id_day_pk" PRIMARY KEY("user_id","day")
+);
+--> statement-breakpoint
+ALTER TABLE "usage_counters" ADD CONSTRAINT "usage_counters_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "IDX_users_stripe_customer" ON "users" USING btree ("stripe_customer_id");
\ No newline at end of file
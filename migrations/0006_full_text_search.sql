@@ -0,0 +1,9 @@
+-- Full-text search over message content and conversation titles.
+-- The tsvector columns are generated by Postgres and deliberately left out of
+-- shared/schema.ts so regular selects don't ship them to clients.
+ALTER TABLE "messages" ADD COLUMN "search_vector" tsvector
+	GENERATED ALWAYS AS (to_tsvector('english', coalesce("content", ''))) STORED;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "search_vector" tsvector
+	GENERATED ALWAYS AS (to_tsvector('english', coalesce("title", ''))) STORED;--> statement-breakpoint
+CREATE INDEX "IDX_messages_search" ON "messages" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "IDX_conversations_search" ON "conversations" USING gin ("search_vector");
@@ -0,0 +1,18 @@
+CREATE TABLE "share_links" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"token" varchar NOT NULL,
+	"conversation_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"title" text NOT NULL,
+	"persona" varchar NOT NULL,
+	"messages" jsonb NOT NULL,
+	"view_count" integer DEFAULT 0 NOT NULL,
+	"expires_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "share_links_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_share_links_conversation" ON "share_links" USING btree ("conversation_id");
\ No newline at end of file
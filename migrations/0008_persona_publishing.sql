@@ -0,0 +1,6 @@
+ALTER TABLE "custom_personas" ADD COLUMN "model" varchar;--> statement-breakpoint
+ALTER TABLE "custom_personas" ADD COLUMN "visibility" text DEFAULT 'private' NOT NULL;--> statement-breakpoint
+ALTER TABLE "custom_personas" ADD COLUMN "forked_from_id" varchar;--> statement-breakpoint
+ALTER TABLE "custom_personas" ADD COLUMN "fork_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "custom_personas" ADD CONSTRAINT "custom_personas_forked_from_id_custom_personas_id_fk" FOREIGN KEY ("forked_from_id") REFERENCES "public"."custom_personas"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_custom_personas_visibility" ON "custom_personas" USING btree ("visibility");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "conversations" ALTER COLUMN "title" SET DEFAULT 'New chat';--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "title_locked" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "conversations" ADD COLUMN "summary" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "summary_through_id" varchar;--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_summary_through_id_messages_id_fk" FOREIGN KEY ("summary_through_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
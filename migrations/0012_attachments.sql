@@ -0,0 +1,17 @@
+CREATE TABLE "attachments" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"kind" text NOT NULL,
+	"file_name" text NOT NULL,
+	"mime_type" varchar NOT NULL,
+	"size" integer NOT NULL,
+	"storage_key" varchar NOT NULL,
+	"thumbnail_key" varchar,
+	"width" integer,
+	"height" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "attachment_ids" text[] DEFAULT '{}'::text[] NOT NULL;--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_attachments_user" ON "attachments" USING btree ("user_id");
\ No newline at end of file
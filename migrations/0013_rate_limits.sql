@@ -0,0 +1,8 @@
+CREATE TABLE "rate_limits" (
+	"key" varchar PRIMARY KEY NOT NULL,
+	"window_start" bigint NOT NULL,
+	"expires_at" bigint NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "IDX_rate_limits_expires" ON "rate_limits" USING btree ("expires_at");
\ No newline at end of file
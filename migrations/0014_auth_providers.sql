@@ -0,0 +1,27 @@
+CREATE TABLE "auth_identities" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"provider" varchar NOT NULL,
+	"subject" varchar NOT NULL,
+	"email" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "auth_tokens" (
+	"token_hash" varchar PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"purpose" varchar NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "password_hash" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "email_verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "auth_identities" ADD CONSTRAINT "auth_identities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "auth_tokens" ADD CONSTRAINT "auth_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "UQ_auth_identities_provider_subject" ON "auth_identities" USING btree ("provider","subject");--> statement-breakpoint
+CREATE INDEX "IDX_auth_identities_user" ON "auth_identities" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "IDX_auth_tokens_user" ON "auth_tokens" USING btree ("user_id");--> statement-breakpoint
+-- Every existing account signed in with Replit, whose subject became the user id
+INSERT INTO "auth_identities" ("user_id", "provider", "subject", "email")
+SELECT "id", 'replit', "id", "email" FROM "users";
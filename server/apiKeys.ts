@@ -0,0 +1,131 @@
+import { createHash, randomBytes } from "crypto";
+import type { RequestHandler } from "express";
+import { z } from "zod";
+import { insertApiKeySchema, type ApiKey } from "../shared/schema";
+import { normalizePlan } from "../shared/plans";
+import { storage } from "./storage";
+import { isAuthenticated, getUserId } from "./auth";
+import { asyncHandler } from "./asyncHandler";
+import { assertApiAccess, requireApiAccess } from "./entitlements";
+import { ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from "./errors";
+import { ApiRouter, apiKeyScopeFor } from "./openapi";
+import { apiKeySchema, createdApiKeySchema } from "./apiSchemas";
+
+const KEY_PREFIX = "fizz_";
+// Characters of the key kept in the clear, "fizz_" included
+const DISPLAY_PREFIX_LENGTH = 12;
+const MAX_ACTIVE_KEYS = 25;
+// lastUsedAt is only rewritten when it is older than this, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Authenticates requests that carry `Authorization: Bearer <key>`. The key's
+ * owner becomes req.user, so isAuthenticated and getUserId work as they do
+ * for sessions. Keys only reach routes whose spec names an apiKeyScope (see
+ * openapi.ts); anything else (billing, memory, account and key management,
+ * ...) stays session-only, so a leaked key can't be used to widen its own
+ * access. Keys also stop working while the owner's plan lacks API access: a
+ * downgrade suspends every key.
+ * Requests without the header pass through to cookie sessions.
+ */
+export const authenticateApiKey: RequestHandler = asyncHandler(async (req, res, next) => {
+  const header = req.get("authorization");
+  if (!header) return next();
+
+  const [scheme, key] = header.split(" ");
+  if (scheme.toLowerCase() !== "bearer" || !key) {
+    throw new UnauthorizedError("Send API keys as Authorization: Bearer <key>");
+  }
+
+  const apiKey = await storage.getApiKeyByHash(hashKey(key));
+  const user = apiKey && !apiKey.revokedAt ? await storage.getUser(apiKey.userId) : undefined;
+  if (!apiKey || !user) throw new UnauthorizedError("Invalid API key");
+
+  res.locals.plan = normalizePlan(user.plan);
+  assertApiAccess(res.locals.plan);
+
+  const scope = apiKeyScopeFor(req.method, req.originalUrl.split("?")[0]);
+  if (!scope) throw new ForbiddenError("This endpoint can't be used with an API key", "api_key_not_allowed");
+  if (!apiKey.scopes.includes(scope)) {
+    throw new ForbiddenError(`This API key doesn't have the ${scope} scope`, "insufficient_scope", { scope });
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await storage.touchApiKey(apiKey.id);
+  }
+
+  req.user = { id: user.id, provider: "api_key", apiKeyId: apiKey.id };
+  next();
+});
+
+// What the owner sees; the key itself is only ever returned once, on creation
+function apiKeySummary(key: ApiKey) {
+  return {
+    id: key.id,
+    name: key.name,
+    prefix: key.prefix,
+    scopes: key.scopes,
+    lastUsedAt: key.lastUsedAt,
+    createdAt: key.createdAt,
+  };
+}
+
+const updateApiKeySchema = insertApiKeySchema.partial();
+
+export function createApiKeysRouter() {
+  const api = new ApiRouter("/api/api-keys", "API keys");
+
+  api.use(isAuthenticated);
+
+  api.get("/", {
+    summary: "List your API keys",
+    responses: { 200: z.array(apiKeySchema) },
+  }, async (req, res) => {
+    const keys = await storage.getApiKeys(getUserId(req));
+    res.json(keys.map(apiKeySummary));
+  });
+
+  api.post("/", {
+    summary: "Create an API key",
+    body: insertApiKeySchema,
+    responses: { 201: createdApiKeySchema },
+  }, requireApiAccess, async (req, res, { body }) => {
+    const userId = getUserId(req);
+    const existing = await storage.getApiKeys(userId);
+    if (existing.length >= MAX_ACTIVE_KEYS) {
+      throw new ConflictError(`You can have at most ${MAX_ACTIVE_KEYS} API keys. Revoke one first.`, "api_key_limit");
+    }
+
+    const key = KEY_PREFIX + randomBytes(32).toString("base64url");
+    const created = await storage.createApiKey(body, userId, key.slice(0, DISPLAY_PREFIX_LENGTH), hashKey(key));
+    res.status(201).json({ ...apiKeySummary(created), key });
+  });
+
+  api.patch("/:id", {
+    summary: "Rename or rescope an API key",
+    body: updateApiKeySchema,
+    responses: { 200: apiKeySchema },
+  }, async (req, res, { body }) => {
+    if (!body.name && !body.scopes) throw new ValidationError("Give a name or scopes to update");
+
+    const updated = await storage.updateApiKey(req.params.id, getUserId(req), body);
+    if (!updated) throw new NotFoundError("API key");
+    res.json(apiKeySummary(updated));
+  });
+
+  // Revoked keys stop working immediately and drop out of the list
+  api.delete("/:id", {
+    summary: "Revoke an API key",
+    responses: { 204: "Revoked" },
+  }, async (req, res) => {
+    const revoked = await storage.revokeApiKey(req.params.id, getUserId(req));
+    if (!revoked) throw new NotFoundError("API key");
+    res.status(204).end();
+  });
+
+  return api.router;
+}
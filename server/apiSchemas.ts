@@ -0,0 +1,300 @@
+import { z } from "zod";
+import { apiKeyScopes, attachmentKinds, messageStatuses, visibilities } from "../shared/schema";
+import { templateVariableSchema } from "../shared/promptTemplates";
+import { plans } from "../shared/plans";
+import { component } from "./openapi";
+
+// Response bodies, for the OpenAPI document. Request schemas live with the
+// routes that parse them; these describe what the handlers send back.
+
+const timestamp = z.string().datetime();
+
+export const okSchema = z.object({ status: z.literal("ok") });
+
+// Auth
+
+export const authProviderSchema = component("AuthProvider", z.object({
+  name: z.string(),
+  label: z.string(),
+  // Where redirect-based sign-in starts; null for form-based providers
+  loginUrl: z.string().nullable(),
+}));
+
+export const accountSchema = component("Account", z.object({
+  id: z.string(),
+  email: z.string().nullable(),
+  firstName: z.string().nullable(),
+  lastName: z.string().nullable(),
+  profileImageUrl: z.string().nullable(),
+  plan: z.string(),
+  memory: z.array(z.string()),
+  preferences: z.record(z.unknown()),
+  stripeCustomerId: z.string().nullable(),
+  stripeSubscriptionId: z.string().nullable(),
+  emailVerifiedAt: timestamp.nullable(),
+  createdAt: timestamp.nullable(),
+  updatedAt: timestamp.nullable(),
+  hasPassword: z.boolean(),
+  signedInWith: z.string(),
+  identities: z.array(z.object({ provider: z.string(), email: z.string().nullable(), createdAt: timestamp })),
+}));
+
+export const signedInSchema = z.object({ id: z.string() });
+
+export const mailSentSchema = z.object({ sent: z.literal(true) });
+
+// Conversations and messages
+
+export const conversationSchema = component("Conversation", z.object({
+  id: z.string(),
+  userId: z.string().nullable(),
+  title: z.string(),
+  titleLocked: z.boolean(),
+  persona: z.string(),
+  activeMessageId: z.string().nullable(),
+  summary: z.string().nullable(),
+  summaryThroughId: z.string().nullable(),
+  createdAt: timestamp,
+}));
+
+export const messageSchema = component("Message", z.object({
+  id: z.string(),
+  conversationId: z.string(),
+  parentId: z.string().nullable(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  imageUrl: z.string().nullable(),
+  attachmentIds: z.array(z.string()),
+  isPinned: z.enum(["true", "false"]),
+  reactions: z.array(z.object({ emoji: z.string(), userId: z.string() })),
+  status: z.enum(messageStatuses),
+  editedAt: timestamp.nullable(),
+  createdAt: timestamp,
+}));
+
+export const chatStreamResponse = {
+  description: "Server-Sent Events: message (the new user turn), delta ({ content }), " +
+    "done (the saved assistant message) and error (an Error body)",
+  schema: z.string(),
+  contentType: "text/event-stream",
+};
+
+export const shareLinkSchema = component("ShareLink", z.object({
+  id: z.string(),
+  conversationId: z.string(),
+  url: z.string().url(),
+  token: z.string(),
+  title: z.string(),
+  messageCount: z.number().int(),
+  viewCount: z.number().int(),
+  state: z.enum(["active", "expired", "revoked"]),
+  expiresAt: timestamp.nullable(),
+  revokedAt: timestamp.nullable(),
+  createdAt: timestamp,
+}));
+
+export const sharedSnapshotSchema = component("SharedSnapshot", z.object({
+  title: z.string(),
+  persona: z.string(),
+  messages: z.array(z.object({
+    role: z.enum(["user", "assistant"]),
+    content: z.string(),
+    imageUrl: z.string().nullable(),
+    createdAt: timestamp,
+  })),
+  viewCount: z.number().int(),
+  sharedAt: timestamp,
+  expiresAt: timestamp.nullable(),
+}));
+
+export const searchResultsSchema = z.object({
+  results: z.array(z.object({
+    type: z.enum(["message", "conversation"]),
+    id: z.string(),
+    conversationId: z.string(),
+    conversationTitle: z.string(),
+    persona: z.string(),
+    role: z.string().nullable(),
+    isPinned: z.boolean().nullable(),
+    snippet: z.string().openapi({ description: "HTML-escaped, with matches wrapped in <mark>" }),
+    rank: z.number(),
+    createdAt: timestamp,
+  })),
+  nextCursor: z.string().nullable(),
+});
+
+export const attachmentSchema = component("Attachment", z.object({
+  id: z.string(),
+  userId: z.string(),
+  kind: z.enum(attachmentKinds),
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number().int(),
+  storageKey: z.string(),
+  thumbnailKey: z.string().nullable(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  createdAt: timestamp,
+}));
+
+// Personas
+
+export const personaSchema = component("Persona", z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  icon: z.string(),
+  systemPrompt: z.string(),
+}));
+
+export const customPersonaSchema = component("CustomPersona", z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  systemPrompt: z.string(),
+  avatar: z.string().nullable(),
+  model: z.string().nullable(),
+  visibility: z.enum(visibilities),
+  forkedFromId: z.string().nullable(),
+  forkCount: z.number().int(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+}));
+
+export const personaListSchema = z.array(z.discriminatedUnion("source", [
+  personaSchema.extend({ source: z.literal("builtin") }),
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    icon: z.string().nullable(),
+    systemPrompt: z.string(),
+    model: z.string().nullable(),
+    visibility: z.enum(visibilities),
+    forkedFromId: z.string().nullable(),
+    source: z.literal("custom"),
+  }),
+]));
+
+export const galleryPersonaSchema = customPersonaSchema.omit({ userId: true }).extend({
+  authorName: z.string().nullable(),
+  useCount: z.number().int(),
+});
+
+export const customPersonaDetailSchema = customPersonaSchema.omit({ userId: true }).extend({
+  isOwner: z.boolean(),
+});
+
+// Prompt templates
+
+const builtInTemplateSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  category: z.string(),
+  template: z.string(),
+  variables: z.array(templateVariableSchema),
+  source: z.literal("builtin"),
+});
+
+const userTemplateSchema = builtInTemplateSchema.extend({
+  version: z.number().int(),
+  visibility: z.enum(visibilities),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  source: z.literal("user"),
+  isOwner: z.boolean(),
+});
+
+export const userPromptTemplateSchema = component("UserPromptTemplate", userTemplateSchema);
+
+export const promptTemplateSchema = component("PromptTemplate", z.discriminatedUnion("source", [
+  builtInTemplateSchema,
+  userPromptTemplateSchema,
+]));
+
+export const promptTemplateVersionSchema = component("PromptTemplateVersion", z.object({
+  templateId: z.string(),
+  version: z.number().int(),
+  template: z.string(),
+  variables: z.array(templateVariableSchema),
+  createdAt: timestamp,
+}));
+
+export const renderedPromptSchema = z.object({
+  prompt: z.string(),
+  values: z.record(z.union([z.string(), z.number()])),
+  // The user template version rendered; absent for built-ins
+  version: z.number().int().optional(),
+});
+
+// Plans, billing and usage
+
+const planSchema = z.enum(plans);
+
+export const entitlementsSchema = component("Entitlements", z.object({
+  personas: z.union([z.literal("all"), z.array(z.string())]),
+  customPersonas: z.number().int(),
+  dailyMessages: z.number().int().nullable(),
+  maxContextTokens: z.number().int(),
+  memoryEntries: z.number().int(),
+  maxAttachmentBytes: z.number().int(),
+  titleRegenerationBatch: z.number().int(),
+  importConversations: z.number().int(),
+  apiAccess: z.boolean(),
+}));
+
+export const usageSchema = z.object({
+  plan: planSchema,
+  entitlements: entitlementsSchema,
+  usage: z.object({ day: z.string(), messages: z.number().int(), resetsAt: timestamp }),
+});
+
+export const planCatalogSchema = z.array(z.object({
+  plan: planSchema,
+  name: z.string(),
+  entitlements: entitlementsSchema,
+  price: z.object({
+    id: z.string(),
+    unitAmount: z.number().int().nullable(),
+    currency: z.string(),
+    interval: z.string().nullable(),
+  }).nullable(),
+  available: z.boolean(),
+}));
+
+export const redirectUrlSchema = z.object({ url: z.string().url() });
+
+export const subscriptionSchema = z.object({
+  plan: planSchema,
+  subscription: z.object({
+    id: z.string(),
+    status: z.string(),
+    cancelAtPeriodEnd: z.boolean(),
+    currentPeriodEnd: z.number().int().openapi({ description: "Unix time, seconds" }),
+  }).nullable(),
+});
+
+// Memory
+
+export const memorySchema = component("Memory", z.object({
+  enabled: z.boolean(),
+  limit: z.number().int(),
+  entries: z.array(z.string()),
+}));
+
+// API keys
+
+export const apiKeySchema = component("ApiKey", z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(z.enum(apiKeyScopes)),
+  lastUsedAt: timestamp.nullable(),
+  createdAt: timestamp,
+}));
+
+export const createdApiKeySchema = apiKeySchema.extend({
+  key: z.string().openapi({ description: "The full key. It is only ever returned here." }),
+});
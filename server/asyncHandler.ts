@@ -0,0 +1,11 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+
+// Express 4 does not forward rejected promises to the error middleware,
+// so async route handlers are wrapped to pass failures on to next().
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>,
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
@@ -0,0 +1,199 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import type { Attachment, Message } from "../shared/schema";
+import { storage } from "./storage";
+import { getFileStore } from "./fileStore";
+import { ValidationError } from "./errors";
+
+// Accepted image types and the sharp format each must actually decode as
+const IMAGE_FORMATS: Record<string, "jpeg" | "png" | "webp" | "gif"> = {
+  "image/jpeg": "jpeg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+const TEXT_TYPES = new Set(["text/plain", "text/markdown", "text/csv", "application/json"]);
+
+// Browsers often send an empty or generic type for source and notes files
+const TEXT_EXTENSIONS = new Set([
+  ".txt", ".md", ".markdown", ".csv", ".json", ".log", ".yaml", ".yml", ".xml", ".html", ".css",
+  ".js", ".jsx", ".ts", ".tsx", ".py", ".rb", ".go", ".rs", ".java", ".kt", ".c", ".h", ".cpp", ".cs", ".php", ".sh", ".sql",
+]);
+
+const THUMBNAIL_SIZE = 256;
+// Longest side of images sent to vision models
+const VISION_MAX_SIZE = 2048;
+// Newest images sent with one prompt; older ones are left out
+const MAX_PROMPT_IMAGES = 8;
+// Characters of one text file inlined into the prompt
+const MAX_INLINE_CHARS = 20_000;
+
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+}
+
+export function invalidUpload(problem: string) {
+  return new ValidationError("Invalid upload", { formErrors: [problem], fieldErrors: {} });
+}
+
+function textMimeType(file: UploadedFile): string | null {
+  if (TEXT_TYPES.has(file.mimetype)) return file.mimetype;
+  const generic = !file.mimetype || file.mimetype === "application/octet-stream" || file.mimetype.startsWith("text/");
+  return generic && TEXT_EXTENSIONS.has(path.extname(file.originalname).toLowerCase()) ? "text/plain" : null;
+}
+
+function decodeText(buffer: Buffer): string | null {
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    return text.includes("\0") ? null : text;
+  } catch {
+    return null;
+  }
+}
+
+// Display name only; keys in the file store never use it
+function cleanFileName(name: string): string {
+  return path.basename(name).replace(/[\u0000-\u001f"\\]/g, "").slice(0, 200) || "file";
+}
+
+/**
+ * Validates an upload and saves it. Images must decode as the type they claim;
+ * they are re-encoded (auto-rotated, with EXIF and other metadata dropped) and
+ * get a WebP thumbnail. Text files must be valid UTF-8; anything else is a
+ * ValidationError. Size limits are enforced by the upload middleware before
+ * this runs.
+ */
+export async function saveUpload(userId: string, file: UploadedFile): Promise<Attachment> {
+  const store = getFileStore();
+  const prefix = `attachments/${userId}/${randomUUID()}`;
+  const fileName = cleanFileName(file.originalname);
+
+  const format = IMAGE_FORMATS[file.mimetype];
+  if (format) {
+    const animated = format === "gif";
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(file.buffer, { animated }).metadata();
+    } catch {
+      throw invalidUpload("File is not a valid image");
+    }
+    if (metadata.format !== format) {
+      throw invalidUpload("File content doesn't match its type");
+    }
+
+    // sharp writes no metadata unless asked to, so re-encoding strips EXIF (GPS included)
+    const pipeline = sharp(file.buffer, { animated });
+    const cleaned = await (animated ? pipeline : pipeline.rotate()).toFormat(format).toBuffer({ resolveWithObject: true });
+    const thumbnail = await sharp(cleaned.data)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+
+    await store.put(`${prefix}/original`, cleaned.data, file.mimetype);
+    await store.put(`${prefix}/thumbnail`, thumbnail, "image/webp");
+
+    return await storage.createAttachment({
+      userId,
+      kind: "image",
+      fileName,
+      mimeType: file.mimetype,
+      size: cleaned.data.length,
+      storageKey: `${prefix}/original`,
+      thumbnailKey: `${prefix}/thumbnail`,
+      width: cleaned.info.width,
+      height: animated ? metadata.pageHeight ?? cleaned.info.height : cleaned.info.height,
+    });
+  }
+
+  const mimeType = textMimeType(file);
+  if (!mimeType) {
+    throw invalidUpload("Unsupported file type. Accepted: images (JPEG, PNG, WebP, GIF) and text files");
+  }
+  if (decodeText(file.buffer) === null) {
+    throw invalidUpload("Text files must be UTF-8");
+  }
+
+  await store.put(`${prefix}/original`, file.buffer, mimeType);
+  return await storage.createAttachment({
+    userId,
+    kind: "text",
+    fileName,
+    mimeType,
+    size: file.buffer.length,
+    storageKey: `${prefix}/original`,
+  });
+}
+
+export async function deleteAttachmentFiles(attachment: Attachment) {
+  const store = getFileStore();
+  await store.delete(attachment.storageKey);
+  if (attachment.thumbnailKey) await store.delete(attachment.thumbnailKey);
+}
+
+// Attachments of every message in the history, by id; ids of deleted attachments are skipped
+export async function loadHistoryAttachments(history: Message[]): Promise<Map<string, Attachment>> {
+  const ids = Array.from(new Set(history.flatMap(m => m.attachmentIds ?? [])));
+  const found = await storage.getAttachments(ids);
+  return new Map(found.map(attachment => [attachment.id, attachment]));
+}
+
+/**
+ * Copies of the history with text attachments appended to their message, so
+ * inlined files count against the context budget like any other text.
+ */
+export async function inlineTextAttachments(history: Message[], attachments: Map<string, Attachment>): Promise<Message[]> {
+  const store = getFileStore();
+  return await Promise.all(history.map(async message => {
+    const files = (message.attachmentIds ?? [])
+      .map(id => attachments.get(id))
+      .filter((a): a is Attachment => a?.kind === "text");
+    if (files.length === 0) return message;
+
+    const blocks = await Promise.all(files.map(async file => {
+      const text = (await store.get(file.storageKey)).toString("utf8");
+      const clipped = text.length > MAX_INLINE_CHARS ? `${text.slice(0, MAX_INLINE_CHARS)}\n[truncated]` : text;
+      return `--- ${file.fileName} ---\n${clipped}`;
+    }));
+    return { ...message, content: [message.content, ...blocks].filter(Boolean).join("\n\n") };
+  }));
+}
+
+async function visionDataUrl(attachment: Attachment): Promise<string> {
+  const original = await getFileStore().get(attachment.storageKey);
+  const resized = await sharp(original)
+    .resize(VISION_MAX_SIZE, VISION_MAX_SIZE, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 85 })
+    .toBuffer();
+  return `data:image/webp;base64,${resized.toString("base64")}`;
+}
+
+/**
+ * Image URLs for each message that will be sent, keyed by message id: uploaded
+ * images as data URLs plus any legacy imageUrl. Only the newest images are
+ * kept, since vision models cap (and bill) images per request.
+ */
+export async function promptImages(messages: Message[], attachments: Map<string, Attachment>): Promise<Map<string, string[]>> {
+  const images = new Map<string, string[]>();
+  let remaining = MAX_PROMPT_IMAGES;
+
+  for (const message of [...messages].reverse()) {
+    if (message.role !== "user" || remaining === 0) continue;
+
+    const uploads = (message.attachmentIds ?? [])
+      .map(id => attachments.get(id))
+      .filter((a): a is Attachment => a?.kind === "image")
+      .slice(0, remaining);
+    const urls = await Promise.all(uploads.map(visionDataUrl));
+    if (message.imageUrl && urls.length < remaining) urls.push(message.imageUrl);
+
+    if (urls.length) {
+      images.set(message.id, urls);
+      remaining -= urls.length;
+    }
+  }
+  return images;
+}
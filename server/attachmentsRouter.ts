@@ -0,0 +1,115 @@
+import type { Request, Response } from "express";
+import multer from "multer";
+import { z } from "zod";
+import type { Attachment } from "../shared/schema";
+import { cheapestPlanWhere, getEntitlements } from "../shared/plans";
+import { storage } from "./storage";
+import { isAuthenticated, getUserId } from "./auth";
+import { getPlan } from "./entitlements";
+import { AppError, NotFoundError, PlanRequiredError } from "./errors";
+import { getFileStore } from "./fileStore";
+import { deleteAttachmentFiles, invalidUpload, saveUpload } from "./attachments";
+import { ApiRouter } from "./openapi";
+import { attachmentSchema } from "./apiSchemas";
+
+function formatBytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+// Parses a single multipart "file" field into memory, capped at the plan's limit
+async function receiveFile(req: Request, res: Response): Promise<void> {
+  const plan = await getPlan(req, res);
+  const maxBytes = getEntitlements(plan).maxAttachmentBytes;
+  const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: maxBytes, files: 1 } }).single("file");
+
+  await new Promise<void>((resolve, reject) => {
+    upload(req, res, (error: unknown) => {
+      if (!error) return resolve();
+
+      if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+        const requiredPlan = cheapestPlanWhere(e => e.maxAttachmentBytes > maxBytes);
+        reject(requiredPlan
+          ? new PlanRequiredError("attachment_size", requiredPlan, `Your plan allows files up to ${formatBytes(maxBytes)}`)
+          : new AppError(413, "payload_too_large", `Files can be at most ${formatBytes(maxBytes)}`));
+      } else {
+        reject(invalidUpload(error instanceof multer.MulterError ? error.message : "Malformed multipart body"));
+      }
+    });
+  });
+}
+
+// Attachments can only be read and deleted by the user who uploaded them
+async function loadAttachment(req: Request): Promise<Attachment> {
+  const attachment = await storage.getAttachment(req.params.id);
+  if (!attachment || attachment.userId !== getUserId(req)) throw new NotFoundError("Attachment");
+  return attachment;
+}
+
+function sendFile(res: Response, data: Buffer, contentType: string) {
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Cache-Control", "private, max-age=86400");
+  res.type(contentType).send(data);
+}
+
+// The stored bytes, in the attachment's own content type
+const fileResponse = { description: "The file", schema: z.string(), contentType: "application/octet-stream" };
+
+export function createAttachmentsRouter() {
+  const api = new ApiRouter("/api/attachments", "Attachments");
+
+  api.use(isAuthenticated);
+
+  // Multipart upload of one "file"; the returned id goes in a message's attachmentIds
+  api.post("/", {
+    summary: "Upload a file",
+    description: "A multipart/form-data body with a single \"file\" field, up to the plan's size limit.",
+    responses: { 201: attachmentSchema },
+  }, async (req, res) => {
+    await receiveFile(req, res);
+    if (!req.file) throw invalidUpload("Missing \"file\" field");
+
+    res.status(201).json(await saveUpload(getUserId(req), req.file));
+  });
+
+  api.get("/:id", {
+    summary: "Get an attachment",
+    responses: { 200: attachmentSchema },
+  }, async (req, res) => {
+    res.json(await loadAttachment(req));
+  });
+
+  api.get("/:id/content", {
+    summary: "Download an attachment",
+    responses: { 200: fileResponse },
+  }, async (req, res) => {
+    const attachment = await loadAttachment(req);
+
+    const data = await getFileStore().get(attachment.storageKey);
+    if (attachment.kind === "text") res.attachment(attachment.fileName);
+    sendFile(res, data, attachment.mimeType);
+  });
+
+  api.get("/:id/thumbnail", {
+    summary: "Get an image attachment's thumbnail",
+    responses: { 200: { description: "A WebP thumbnail", schema: z.string(), contentType: "image/webp" } },
+  }, async (req, res) => {
+    const attachment = await loadAttachment(req);
+    if (!attachment.thumbnailKey) throw new NotFoundError("Thumbnail");
+
+    sendFile(res, await getFileStore().get(attachment.thumbnailKey), "image/webp");
+  });
+
+  // Messages keep the id; prompts and clients skip attachments that no longer exist
+  api.delete("/:id", {
+    summary: "Delete an attachment",
+    responses: { 204: "Deleted" },
+  }, async (req, res) => {
+    const attachment = await loadAttachment(req);
+
+    await storage.deleteAttachment(attachment.id, attachment.userId);
+    await deleteAttachmentFiles(attachment);
+    res.status(204).end();
+  });
+
+  return api.router;
+}
@@ -0,0 +1,341 @@
+import passport from "passport";
+import session from "express-session";
+import type { Express, Request, RequestHandler } from "express";
+import connectPg from "connect-pg-simple";
+import { z } from "zod";
+import createMemoryStore from "memorystore";
+import type { AuthIdentity, User } from "../shared/schema";
+import { storage } from "./storage";
+import { getPool } from "./db";
+import { asyncHandler } from "./asyncHandler";
+import { NotFoundError, UnauthorizedError } from "./errors";
+import { ApiRouter } from "./openapi";
+import { accountSchema, authProviderSchema } from "./apiSchemas";
+import { genericOidcProvider, replitProvider } from "./oidcAuth";
+import { LocalAuthProvider } from "./localAuth";
+import { DevAuthProvider } from "./devAuth";
+
+/**
+ * What the session holds for a signed-in user: the users row id and the
+ * provider that signed them in. OIDC sessions also carry the issuer's token
+ * expiry (seconds) and refresh token, renewed by isAuthenticated.
+ */
+export interface SessionUser {
+  id: string;
+  provider: string;
+  expires_at?: number;
+  refresh_token?: string;
+  // Set instead of a session when the request carried an API key (provider "api_key")
+  apiKeyId?: string;
+}
+
+declare global {
+  namespace Express {
+    interface User extends SessionUser {}
+  }
+}
+
+// What a session holds: a SessionUser, or Replit claims for sessions from
+// before pluggable providers
+type StoredSessionUser = SessionUser | { claims: { sub: string }; expires_at?: number; refresh_token?: string };
+
+/**
+ * AuthProvider: one way of signing in. Every provider resolves to a row in
+ * users, so a person can use several of them for the same account.
+ */
+export interface AuthProvider {
+  readonly name: string;
+  readonly label: string;
+  // Browser entry point for redirect-based sign-in; form-based providers have none
+  readonly loginPath?: string;
+  // Registers the provider's passport strategy and routes
+  setup(app: Express): Promise<void> | void;
+  // Renews a session whose tokens expired; false signs the user out
+  refresh?(user: SessionUser): Promise<boolean>;
+  // Where the browser goes after logout, e.g. the issuer's end-session endpoint
+  logoutUrl?(req: Request): Promise<string | undefined>;
+}
+
+// A sign-in asserted by an external issuer
+export interface ExternalProfile {
+  provider: string;
+  subject: string;
+  email?: string | null;
+  // Only emails the issuer vouches for link to an existing account
+  emailVerified: boolean;
+  firstName?: string | null;
+  lastName?: string | null;
+  profileImageUrl?: string | null;
+}
+
+// Auth configuration
+//
+//   AUTH_PROVIDERS   comma-separated, any of "replit", "oidc", "local" and "dev"
+//                    (defaults to "replit" when REPL_ID is set, else "local")
+//   SESSION_SECRET   required
+//   SESSION_STORE    "postgres" or "memory" (single process; development and tests);
+//                    defaults to "memory" with STORAGE=memory, else "postgres",
+//                    which shares storage's connection pool (db.ts)
+//   APP_URL          public base URL used for OIDC callbacks, mailed links and Stripe
+//                    redirects; required in production, defaults to http://localhost:$PORT
+//                    elsewhere
+//
+// Provider settings live with each provider: oidcAuth.ts, localAuth.ts and devAuth.ts.
+
+const providers = new Map<string, AuthProvider>();
+
+function configuredProviders(): AuthProvider[] {
+  const names = (process.env.AUTH_PROVIDERS || (process.env.REPL_ID ? "replit" : "local"))
+    .split(",")
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return names.map(name => {
+    switch (name) {
+      case "replit":
+        return replitProvider();
+      case "oidc":
+        return genericOidcProvider();
+      case "local":
+        return new LocalAuthProvider();
+      case "dev":
+        if (process.env.NODE_ENV === "production") {
+          throw new Error("The dev auth provider signs in without credentials and can't be enabled in production");
+        }
+        return new DevAuthProvider();
+      default:
+        throw new Error(`Unknown auth provider: ${name}`);
+    }
+  });
+}
+
+export function getAuthProvider(name: string): AuthProvider | undefined {
+  return providers.get(name);
+}
+
+// Where the browser reaches the app. Never taken from the request: Host and
+// X-Forwarded-* are client-controlled, and these URLs carry mailed tokens.
+export function appUrl(): string {
+  if (process.env.APP_URL) return new URL(process.env.APP_URL).href.replace(/\/+$/, "");
+  if (process.env.NODE_ENV === "production") throw new Error("APP_URL must be set in production");
+  return `http://localhost:${process.env.PORT || 5000}`;
+}
+
+export function getSession() {
+  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+  let sessionStore: session.Store;
+  const storeKind = process.env.SESSION_STORE || (process.env.STORAGE === "memory" ? "memory" : "postgres");
+  if (storeKind === "memory") {
+    const MemoryStore = createMemoryStore(session);
+    sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  } else {
+    const pgStore = connectPg(session);
+    sessionStore = new pgStore({
+      pool: getPool(),
+      createTableIfMissing: true, // Auto-create sessions table if missing
+      ttl: sessionTtl,
+      tableName: "sessions",
+    });
+  }
+
+  // Use secure cookies only in production (requires HTTPS)
+  const isProduction = process.env.NODE_ENV === "production";
+
+  return session({
+    secret: process.env.SESSION_SECRET!,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: isProduction, // Only require HTTPS in production
+      maxAge: sessionTtl,
+    },
+  });
+}
+
+function displayName(firstName: string, lastName?: string | null) {
+  return lastName ? `${firstName} ${lastName}` : firstName;
+}
+
+/**
+ * Refreshes the profile fields a provider knows about and, when the user has
+ * a first name, makes sure memory starts with "My name is ..." (added once,
+ * never overwritten).
+ */
+export async function applyProfile(user: User, profile: Pick<ExternalProfile, "firstName" | "lastName" | "profileImageUrl">) {
+  const firstName = profile.firstName ?? user.firstName;
+  const lastName = profile.lastName ?? user.lastName;
+
+  if (profile.firstName || profile.lastName || profile.profileImageUrl) {
+    await storage.upsertUser({
+      id: user.id,
+      email: user.email,
+      firstName,
+      lastName,
+      profileImageUrl: profile.profileImageUrl ?? user.profileImageUrl,
+    });
+  }
+
+  if (!firstName) return;
+  const currentMemory = user.memory || [];
+  const hasNameEntry = currentMemory.some(entry => typeof entry === "string" && entry.startsWith("My name is"));
+  if (!hasNameEntry) {
+    await storage.updateUserMemory(user.id, [`My name is ${displayName(firstName, lastName)}`, ...currentMemory]);
+  }
+}
+
+/**
+ * The user behind an external sign-in. A known identity maps to its user;
+ * a new one is linked to the signed-in user if there is one, else to the
+ * account with the same verified email, else to a new account.
+ */
+export async function findOrCreateUser(profile: ExternalProfile, signedInUserId?: string): Promise<User> {
+  const identity = await storage.getAuthIdentity(profile.provider, profile.subject);
+  let user = identity ? await storage.getUser(identity.userId) : undefined;
+
+  if (!user) {
+    if (signedInUserId) user = await storage.getUser(signedInUserId);
+
+    const sameEmail = profile.email ? await storage.getUserByEmail(profile.email) : undefined;
+    // A local sign-up that never confirmed its email doesn't own the address yet
+    if (!user && sameEmail && profile.emailVerified && (sameEmail.emailVerifiedAt || !sameEmail.passwordHash)) {
+      user = sameEmail;
+    }
+
+    user ??= await storage.createUser({
+      // Emails are unique; an unlinked account with the same one keeps it
+      email: sameEmail ? null : profile.email ?? null,
+      emailVerifiedAt: profile.email && profile.emailVerified && !sameEmail ? new Date() : null,
+    });
+    await storage.createAuthIdentity({
+      userId: user.id,
+      provider: profile.provider,
+      subject: profile.subject,
+      email: profile.email ?? null,
+    });
+  }
+
+  await applyProfile(user, profile);
+  return user;
+}
+
+export function logIn(req: Request, user: SessionUser): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.login(user, error => (error ? reject(error) : resolve()));
+  });
+}
+
+function logOut(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.logout(error => (error ? reject(error) : resolve()));
+  });
+}
+
+// The account as its owner sees it; the password hash never leaves the server
+function accountResponse(user: User, identities: AuthIdentity[], provider: string) {
+  const { passwordHash, ...rest } = user;
+  return {
+    ...rest,
+    hasPassword: Boolean(passwordHash),
+    signedInWith: provider,
+    identities: identities.map(({ provider, email, createdAt }) => ({ provider, email, createdAt })),
+  };
+}
+
+export async function setupAuth(app: Express) {
+  // Fail at startup, not on the first sign-in or mailed link, without APP_URL
+  appUrl();
+
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: StoredSessionUser, cb) => {
+    // Sessions from before pluggable providers hold Replit claims; the subject is the user id
+    if ("claims" in user) {
+      return cb(null, { ...user, id: user.claims.sub, provider: "replit" });
+    }
+    cb(null, user);
+  });
+
+  providers.clear();
+  for (const provider of configuredProviders()) {
+    await provider.setup(app);
+    providers.set(provider.name, provider);
+  }
+
+  const api = new ApiRouter("/api", "Auth", "none");
+
+  // For login screens: which sign-in options exist and where redirect-based ones start
+  api.get("/auth/providers", {
+    summary: "List sign-in options",
+    responses: { 200: z.array(authProviderSchema) },
+  }, (_req, res) => {
+    res.json(Array.from(providers.values(), provider => ({
+      name: provider.name,
+      label: provider.label,
+      loginUrl: provider.loginPath ?? null,
+    })));
+  });
+
+  api.get("/auth/user", {
+    summary: "Get your account",
+    responses: { 200: accountSchema },
+    auth: "required",
+  }, isAuthenticated, async (req, res) => {
+    const user = await storage.getUser(getUserId(req));
+    if (!user) throw new NotFoundError("User");
+    res.json(accountResponse(user, await storage.getAuthIdentities(user.id), req.user!.provider));
+  });
+
+  // Browser logout, ending the issuer's session too where it supports that
+  api.get("/logout", {
+    summary: "Sign out and return to the app",
+    responses: { 302: "To the issuer's logout page, or the app" },
+    auth: "optional",
+  }, async (req, res) => {
+    const provider = req.user ? providers.get(req.user.provider) : undefined;
+    const redirect = await provider?.logoutUrl?.(req);
+    await logOut(req);
+    res.redirect(redirect || "/");
+  });
+
+  api.post("/auth/logout", {
+    summary: "Sign out",
+    responses: { 204: "Signed out" },
+    auth: "optional",
+  }, async (req, res) => {
+    await logOut(req);
+    res.status(204).end();
+  });
+
+  app.use("/api", api.router);
+}
+
+export const isAuthenticated: RequestHandler = asyncHandler(async (req, _res, next) => {
+  const user = req.user;
+  if (!req.isAuthenticated() || !user) throw new UnauthorizedError();
+
+  // Only OIDC sessions expire with their tokens; the others last as long as the session
+  const now = Math.floor(Date.now() / 1000);
+  if (!user.expires_at || now <= user.expires_at) return next();
+
+  const provider = providers.get(user.provider);
+  if (!provider?.refresh || !await provider.refresh(user)) throw new UnauthorizedError();
+  next();
+});
+
+// The authenticated user's id (users.id). Only valid behind isAuthenticated.
+export function getUserId(req: Request): string {
+  return req.user!.id;
+}
+
+// The signed-in user's id on routes that also serve anonymous callers.
+// Safe to call before passport is initialized.
+export function getOptionalUserId(req: Request): string | undefined {
+  return req.isAuthenticated?.() ? req.user?.id : undefined;
+}
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { entitlements, normalizePlan, plans } from "../shared/plans";
+import { storage } from "./storage";
+import { stripeService } from "./stripeService";
+import { isAuthenticated, getUserId, appUrl } from "./auth";
+import { rateLimit } from "./rateLimit";
+import { AppError, ConflictError, NotFoundError } from "./errors";
+import { ApiRouter } from "./openapi";
+import { planCatalogSchema, redirectUrlSchema, subscriptionSchema } from "./apiSchemas";
+import { isPlanAvailable, paidPlans, priceCatalog, priceIdFor, type PaidPlan } from "./priceCatalog";
+
+const checkoutSchema = z.object({
+  plan: z.enum(paidPlans as [PaidPlan, ...PaidPlan[]]),
+});
+
+export function createBillingRouter() {
+  const api = new ApiRouter("/api/billing", "Billing");
+
+  // Public: every plan with its entitlements and current-mode price
+  api.get("/plans", {
+    summary: "List plans and prices",
+    responses: { 200: planCatalogSchema },
+    auth: "none",
+  }, async (_req, res) => {
+    const catalog = await Promise.all(plans.map(async plan => {
+      if (plan === "free") {
+        return { plan, name: "Fizz Free", entitlements: entitlements.free, price: null, available: true };
+      }
+
+      const priceId = await priceIdFor(plan);
+      const price = priceId ? await stripeService.getPrice(priceId) : null;
+      return {
+        plan,
+        name: priceCatalog[plan].name,
+        entitlements: entitlements[plan],
+        price: price && {
+          id: price.id,
+          unitAmount: price.unit_amount,
+          currency: price.currency,
+          interval: price.recurring?.interval ?? null,
+        },
+        available: isPlanAvailable(plan) && !!price,
+      };
+    }));
+
+    res.json(catalog);
+  });
+
+  api.post("/checkout", {
+    summary: "Start a Stripe checkout",
+    body: checkoutSchema,
+    responses: { 200: redirectUrlSchema },
+  }, isAuthenticated, rateLimit("billing"), async (req, res, { body }) => {
+    const { plan } = body;
+    const priceId = await priceIdFor(plan);
+    if (!priceId || !isPlanAvailable(plan)) {
+      throw new AppError(503, "plan_unavailable", `${priceCatalog[plan].name} is not available right now`);
+    }
+
+    const userId = getUserId(req);
+    const user = await storage.getUser(userId);
+    if (!user) throw new NotFoundError("User");
+
+    // Plan changes for existing subscribers go through the customer portal
+    if (user.stripeSubscriptionId && normalizePlan(user.plan) !== "free") {
+      throw new ConflictError("You already have a subscription. Use the billing portal to change plans.", "already_subscribed");
+    }
+
+    // The Stripe customer is created lazily on first checkout
+    let customerId = user.stripeCustomerId;
+    if (!customerId) {
+      const customer = await stripeService.createCustomer(user.email ?? "", userId);
+      await storage.updateUserStripeInfo(userId, { stripeCustomerId: customer.id });
+      customerId = customer.id;
+    }
+
+    const baseUrl = appUrl();
+    const session = await stripeService.createCheckoutSession(
+      customerId,
+      priceId,
+      `${baseUrl}/subscribe?status=success&session_id={CHECKOUT_SESSION_ID}`,
+      `${baseUrl}/subscribe?status=canceled`,
+      userId,
+    );
+
+    res.json({ url: session.url });
+  });
+
+  api.post("/portal", {
+    summary: "Open the Stripe customer portal",
+    responses: { 200: redirectUrlSchema },
+  }, isAuthenticated, rateLimit("billing"), async (req, res) => {
+    const user = await storage.getUser(getUserId(req));
+    if (!user?.stripeCustomerId) {
+      throw new AppError(400, "no_billing_account", "No billing account yet. Subscribe to a plan first.");
+    }
+
+    const session = await stripeService.createCustomerPortalSession(user.stripeCustomerId, appUrl());
+    res.json({ url: session.url });
+  });
+
+  api.get("/subscription", {
+    summary: "Get your subscription",
+    responses: { 200: subscriptionSchema },
+  }, isAuthenticated, async (req, res) => {
+    const user = await storage.getUser(getUserId(req));
+    if (!user) throw new NotFoundError("User");
+
+    const subscription = user.stripeSubscriptionId
+      ? await stripeService.getSubscription(user.stripeSubscriptionId)
+      : null;
+
+    res.json({
+      plan: normalizePlan(user.plan),
+      subscription: subscription && {
+        id: subscription.id,
+        status: subscription.status,
+        cancelAtPeriodEnd: subscription.cancel_at_period_end,
+        currentPeriodEnd: subscription.current_period_end,
+      },
+    });
+  });
+
+  return api.router;
+}
@@ -0,0 +1,86 @@
+import type { Conversation, Message, User } from "../shared/schema";
+import { personas } from "../shared/personas";
+import { normalizePlan } from "../shared/plans";
+import { storage } from "./storage";
+import { NotFoundError } from "./errors";
+import { isModelAllowed, selectProvider, type ChatMessage, type LLMProvider } from "./llm";
+import { isMemoryEnabled, memoryPrompt } from "./memory";
+import { inlineTextAttachments, loadHistoryAttachments, promptImages } from "./attachments";
+import { buildContextWindow, messageTokens, promptBudget, summaryPrompt } from "./contextWindow";
+
+export interface ResolvedPersona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  // Model to request instead of the provider's default
+  model?: string | null;
+}
+
+// Everything needed to generate a reply in a conversation
+export interface ChatContext {
+  persona: ResolvedPersona;
+  provider: LLMProvider;
+  user?: User;
+  // Long-term memory to inject; empty when the owner turned memory off
+  memory: string[];
+}
+
+// A conversation's persona is either a built-in persona id or the id of one
+// of the owner's custom personas; anything else (e.g. a deleted persona) is a 404
+export async function resolvePersona(conversation: Conversation): Promise<ResolvedPersona> {
+  const builtIn = personas.find(p => p.id === conversation.persona);
+  if (builtIn) return builtIn;
+
+  const custom = conversation.userId
+    ? await storage.getCustomPersona(conversation.persona, conversation.userId)
+    : undefined;
+  if (!custom) throw new NotFoundError("Persona");
+  return { id: custom.id, name: custom.name, systemPrompt: custom.systemPrompt, model: custom.model };
+}
+
+// Resolves the persona, the owner and the provider configured for that persona or plan
+export async function loadChatContext(conversation: Conversation): Promise<ChatContext> {
+  let persona = await resolvePersona(conversation);
+  const user = conversation.userId ? await storage.getUser(conversation.userId) : undefined;
+  // Personas were checked when saved, but the owner's plan (or LLM_MODELS_*) may
+  // have changed since; a model the plan no longer includes falls back to the default
+  if (persona.model && !isModelAllowed(normalizePlan(user?.plan), persona.model)) {
+    persona = { ...persona, model: null };
+  }
+  const provider = selectProvider({ personaId: persona.id, plan: user?.plan });
+  const memory = user && isMemoryEnabled(user) ? user.memory ?? [] : [];
+
+  return { persona, provider, user, memory };
+}
+
+/**
+ * The prompt for the next reply: persona, memory, the rolling summary when the
+ * branch no longer fits the plan's context budget, then the turns that do fit
+ * (pinned turns always among them). Text attachments are inlined and images
+ * become vision content parts.
+ */
+export async function buildPrompt(context: ChatContext, conversation: Conversation, history: Message[]): Promise<ChatMessage[]> {
+  const prompt: ChatMessage[] = [{ role: "system", content: context.persona.systemPrompt }];
+  if (context.memory.length > 0) {
+    prompt.push({ role: "system", content: memoryPrompt(context.memory) });
+  }
+
+  const fixed = prompt.reduce((total, m) => total + messageTokens(m), 0);
+  const available = promptBudget(context.user?.plan) - fixed;
+  const attachments = await loadHistoryAttachments(history);
+  const expanded = await inlineTextAttachments(history, attachments);
+  const window = await buildContextWindow(conversation, context.provider, expanded, available);
+  const images = await promptImages(window.included, attachments);
+
+  if (window.summary) prompt.push({ role: "system", content: summaryPrompt(window.summary) });
+  // fitHistory already skips empty assistant turns left behind by a disconnect
+  for (const message of window.included) {
+    prompt.push({
+      role: message.role as ChatMessage["role"],
+      content: message.content,
+      ...(images.has(message.id) && { images: images.get(message.id) }),
+    });
+  }
+
+  return prompt;
+}
@@ -0,0 +1,165 @@
+import type { Conversation, Message } from "../shared/schema";
+import { getEntitlements } from "../shared/plans";
+import { storage } from "./storage";
+import { logger } from "./logger";
+import type { ChatMessage, LLMProvider } from "./llm";
+
+// Without a tokenizer for every provider we estimate: about 4 characters per
+// token for English text, plus a few tokens of framing per message
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Room left for the reply, at most a quarter of the context
+const REPLY_RESERVE_TOKENS = 4_000;
+// Room kept for the summary message once older turns overflow
+const SUMMARY_RESERVE_TOKENS = 1_000;
+// Vision models bill images by size; roughly a detailed 1024px image. Text
+// attachments are already inlined by then, so this slightly overcounts them.
+const ATTACHMENT_TOKENS = 800;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function messageTokens(message: Pick<ChatMessage, "content">): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function turnTokens(message: Message): number {
+  const attachments = (message.attachmentIds?.length ?? 0) + (message.imageUrl ? 1 : 0);
+  return messageTokens(message) + attachments * ATTACHMENT_TOKENS;
+}
+
+function hasContent(message: Message): boolean {
+  return Boolean(message.content || message.attachmentIds?.length || message.imageUrl);
+}
+
+// Tokens the prompt may use on a plan: its context size minus room for the reply
+export function promptBudget(plan: string | null | undefined): number {
+  const contextTokens = getEntitlements(plan).maxContextTokens;
+  return contextTokens - Math.min(REPLY_RESERVE_TOKENS, Math.floor(contextTokens / 4));
+}
+
+export interface HistoryFit {
+  // Turns sent verbatim, oldest first: every pinned turn plus the newest turns that fit
+  included: Message[];
+  // Older unpinned turns that didn't fit, oldest first
+  overflow: Message[];
+}
+
+/**
+ * Splits the branch into what fits in `available` tokens and what doesn't.
+ * Pinned turns are always kept, and so is the last turn even when it alone
+ * is over budget; the rest is filled newest first.
+ */
+export function fitHistory(history: Message[], available: number): HistoryFit {
+  const turns = history.filter(m => (m.role === "user" || m.role === "assistant") && hasContent(m));
+  const isPinned = (m: Message) => m.isPinned === "true";
+
+  let remaining = available - turns.filter(isPinned).reduce((total, m) => total + turnTokens(m), 0);
+  let start = turns.length;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (!isPinned(turns[i])) {
+      const cost = turnTokens(turns[i]);
+      if (cost > remaining && i < turns.length - 1) break;
+      remaining -= cost;
+    }
+    start = i;
+  }
+
+  return {
+    included: turns.filter((m, i) => i >= start || isPinned(m)),
+    overflow: turns.slice(0, start).filter(m => !isPinned(m)),
+  };
+}
+
+const SUMMARY_PROMPT = `You keep a running summary of a conversation between a user and an assistant.
+You get the current summary (possibly empty) and turns that happened after it.
+Rewrite the summary so it also covers the new turns. Keep names, facts, decisions, code and file names, open questions and what the user is trying to achieve; drop pleasantries.
+Write at most 250 words. Reply with the summary only.`;
+
+function transcript(turns: Message[]): string {
+  return turns.map(m => `${m.role}: ${m.content}`).join("\n\n");
+}
+
+// Groups turns so each summarization request stays within maxTokens
+function chunkTurns(turns: Message[], maxTokens: number): Message[][] {
+  const chunks: Message[][] = [];
+  let current: Message[] = [];
+  let size = 0;
+
+  for (const turn of turns) {
+    const cost = messageTokens(turn);
+    if (current.length && size + cost > maxTokens) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(turn);
+    size += cost;
+  }
+  if (current.length) chunks.push(current);
+  return chunks;
+}
+
+async function foldIntoSummary(provider: LLMProvider, summary: string, turns: Message[], chunkTokens: number) {
+  for (const chunk of chunkTurns(turns, chunkTokens)) {
+    // A single turn larger than the chunk size is cut rather than skipped
+    const text = transcript(chunk).slice(0, chunkTokens * CHARS_PER_TOKEN);
+    const result = await provider.chat({
+      messages: [
+        { role: "system", content: SUMMARY_PROMPT },
+        { role: "user", content: `Current summary:\n${summary || "(empty)"}\n\nNew turns:\n${text}` },
+      ],
+      temperature: 0,
+    });
+    summary = result.content.trim();
+  }
+  return summary;
+}
+
+export interface ContextWindow {
+  summary: string | null;
+  included: Message[];
+}
+
+/**
+ * Fits the branch into `available` tokens. Turns that overflow are condensed
+ * into the conversation's rolling summary, which is stored and extended
+ * incrementally: only turns after summaryThroughId are folded in, and the
+ * summary is rebuilt when that message is no longer on the overflowing part
+ * of the branch (another branch, or a bigger budget after an upgrade).
+ */
+export async function buildContextWindow(
+  conversation: Conversation,
+  provider: LLMProvider,
+  history: Message[],
+  available: number,
+): Promise<ContextWindow> {
+  const fit = fitHistory(history, available);
+  if (fit.overflow.length === 0) return { summary: null, included: fit.included };
+
+  const summaryReserve = Math.min(SUMMARY_RESERVE_TOKENS, Math.floor(available / 8));
+  const { included, overflow } = fitHistory(history, available - summaryReserve);
+  const last = overflow[overflow.length - 1];
+
+  const covered = overflow.findIndex(m => m.id === conversation.summaryThroughId);
+  const baseSummary = covered >= 0 ? conversation.summary ?? "" : "";
+  const pending = overflow.slice(covered + 1);
+  if (pending.length === 0) return { summary: baseSummary || null, included };
+
+  try {
+    const chunkTokens = Math.max(Math.floor(available / 2), 1_000);
+    const summary = await foldIntoSummary(provider, baseSummary, pending, chunkTokens);
+    await storage.updateConversationSummary(conversation.id, summary, last.id);
+    return { summary: summary || null, included };
+  } catch (error: any) {
+    // Older turns are dropped rather than failing the reply
+    logger.error("Context summarization failed", { conversationId: conversation.id, error });
+    return { summary: baseSummary || null, included };
+  }
+}
+
+export function summaryPrompt(summary: string): string {
+  return `Summary of the earlier part of this conversation:\n${summary}`;
+}
@@ -0,0 +1,490 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import { insertConversationSchema, type Conversation, type Message } from "../shared/schema";
+import { getEntitlements } from "../shared/plans";
+import { storage } from "./storage";
+import { isAuthenticated, getUserId } from "./auth";
+import { asyncHandler } from "./asyncHandler";
+import { chargeMessageQuota, getPlan, requirePersonaAccess } from "./entitlements";
+import { buildPrompt, loadChatContext, type ChatContext } from "./chatService";
+import type { ChatMessage } from "./llm";
+import { isMemoryEnabled, scheduleMemoryExtraction } from "./memory";
+import { exportConversation, toHtml, toJson, toMarkdown } from "./exportImport";
+import { shareLinkSummary, snapshotMessages } from "./shareLinks";
+import { rateLimit } from "./rateLimit";
+import { AppError, ForbiddenError, NotFoundError, ValidationError } from "./errors";
+import { generateConversationTitle, needsTitle, scheduleTitleGeneration } from "./titles";
+import { logger } from "./logger";
+import { ApiRouter } from "./openapi";
+import { chatStreamResponse, conversationSchema, messageSchema, shareLinkSchema } from "./apiSchemas";
+
+const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Text may be empty when the message carries attachments
+const sendMessageSchema = z.object({
+  content: z.string().trim().default(""),
+  imageUrl: z.string().url().optional(),
+  attachmentIds: z.array(z.string().min(1)).max(MAX_ATTACHMENTS_PER_MESSAGE).default([]),
+}).refine(data => data.content || data.attachmentIds.length || data.imageUrl, "Message is empty");
+
+// Renaming locks the title; titleLocked: false hands it back to automatic titling
+const updateConversationSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  titleLocked: z.boolean().optional(),
+}).refine(data => data.title !== undefined || data.titleLocked !== undefined, "Nothing to update");
+
+const editMessageSchema = z.object({
+  content: z.string().trim().min(1),
+});
+
+const listMessagesQuerySchema = z.object({
+  branches: z.enum(["active", "all"]).default("active"),
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(["md", "json", "html"]).default("md"),
+});
+
+const createShareLinkSchema = z.object({
+  expiresAt: z.coerce.date().refine(date => date > new Date(), "Must be in the future").optional(),
+});
+
+const pinMessageSchema = z.object({
+  isPinned: z.boolean(),
+});
+
+const reactionSchema = z.object({
+  emoji: z.string().min(1).max(32),
+});
+
+const titleRegenerationSchema = z.object({
+  updated: z.array(z.object({ id: z.string(), title: z.string() })),
+  // Conversations whose title generation failed
+  failed: z.array(z.string()),
+  remaining: z.number().int(),
+  batchSize: z.number().int(),
+});
+
+function sendEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Attachment ids must be the caller's own uploads
+async function checkAttachments(userId: string, ids: string[]) {
+  const unique = Array.from(new Set(ids));
+  const found = await storage.getAttachments(unique);
+  if (found.length !== unique.length || found.some(a => a.userId !== userId)) {
+    throw new ValidationError("Invalid request", { formErrors: [], fieldErrors: { attachmentIds: ["Unknown attachment"] } });
+  }
+}
+
+async function checkModeration(context: ChatContext, content: string) {
+  const moderation = await context.provider.moderate(content);
+  if (moderation.flagged) {
+    throw new AppError(400, "content_flagged", "Message was flagged by moderation", { categories: moderation.categories });
+  }
+}
+
+/**
+ * Streams an assistant reply to `prompt` over Server-Sent Events and saves it
+ * as a child of parentId. Events: "message" (the user turn, when there is a
+ * new one), "delta" (reply chunks), "done" (the saved assistant turn) and
+ * "error". A client disconnect aborts the upstream request and keeps whatever
+ * arrived as a "partial" message. Completed replies feed long-term memory and
+ * title conversations that still have a placeholder title.
+ */
+async function streamReply(
+  res: Response,
+  options: {
+    conversation: Conversation;
+    context: ChatContext;
+    prompt: ChatMessage[];
+    parentId: string;
+    userMessage?: Message;
+  },
+) {
+  const { conversation, context, prompt, parentId, userMessage } = options;
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  if (userMessage) sendEvent(res, "message", userMessage);
+
+  const controller = new AbortController();
+  let clientGone = false;
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      clientGone = true;
+      controller.abort();
+    }
+  });
+
+  let reply = "";
+  try {
+    const request = { messages: prompt, model: context.persona.model ?? undefined, signal: controller.signal };
+    await context.provider.stream(request, delta => {
+      reply += delta;
+      sendEvent(res, "delta", { content: delta });
+    });
+
+    const assistantMessage = await storage.createMessage({
+      conversationId: conversation.id,
+      parentId,
+      role: "assistant",
+      content: reply,
+      status: "complete",
+    });
+    sendEvent(res, "done", assistantMessage);
+    res.end();
+
+    if (needsTitle(conversation)) scheduleTitleGeneration(conversation, context.provider);
+
+    if (context.user && isMemoryEnabled(context.user)) {
+      const lastUserTurn = prompt.filter(m => m.role === "user").slice(-1);
+      scheduleMemoryExtraction(context.user.id, context.provider, [
+        ...lastUserTurn,
+        { role: "assistant", content: reply },
+      ]);
+    }
+  } catch (error: any) {
+    const status = clientGone ? "partial" : "error";
+    if (reply) {
+      await storage.createMessage({
+        conversationId: conversation.id,
+        parentId,
+        role: "assistant",
+        content: reply,
+        status,
+      }).catch(saveError => {
+        logger.error("Failed to save partial reply", { conversationId: conversation.id, error: saveError });
+      });
+    }
+
+    if (clientGone) return;
+
+    logger.error("Chat completion failed", { conversationId: conversation.id, error });
+    sendEvent(res, "error", error instanceof AppError
+      ? error.toJSON()
+      : { error: "internal_error", message: "Failed to generate a response" });
+    res.end();
+  }
+}
+
+// Loads :id into res.locals.conversation, rejecting conversations the caller doesn't own
+const loadConversation = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const conversation = await storage.getConversation(req.params.id);
+  if (!conversation) throw new NotFoundError("Conversation");
+  if (conversation.userId !== getUserId(req)) throw new ForbiddenError();
+
+  res.locals.conversation = conversation;
+  next();
+});
+
+// Loads :messageId into res.locals.message; it must belong to the loaded conversation.
+// storage.getMessage/updateMessage don't check ownership, so this is the guard.
+const loadMessage = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const conversation: Conversation = res.locals.conversation;
+  const message = await storage.getMessage(req.params.messageId);
+  if (!message || message.conversationId !== conversation.id) {
+    throw new NotFoundError("Message");
+  }
+
+  res.locals.message = message;
+  next();
+});
+
+// Chat routes: the conversation's persona must be on the caller's plan and replies
+// are rate limited. Each handler charges the daily message quota itself, once the
+// request has passed every other check (see chargeMessageQuota).
+const chatGuards: RequestHandler[] = [
+  loadConversation,
+  requirePersonaAccess((_req, res) => res.locals.conversation.persona),
+  rateLimit("chat"),
+];
+
+export function createConversationsRouter() {
+  const api = new ApiRouter("/api/conversations", "Conversations");
+
+  api.use(isAuthenticated);
+
+  api.get("/", {
+    summary: "List your conversations",
+    responses: { 200: z.array(conversationSchema) },
+    apiKeyScope: "conversations:read",
+  }, async (req, res) => {
+    res.json(await storage.getConversations(getUserId(req)));
+  });
+
+  api.post("/", {
+    summary: "Start a conversation",
+    body: insertConversationSchema,
+    responses: { 201: conversationSchema },
+    apiKeyScope: "chat",
+  }, requirePersonaAccess(req => req.body?.persona), async (req, res, { body }) => {
+    const conversation = await storage.createConversation(body, getUserId(req));
+    res.status(201).json(conversation);
+  });
+
+  // Retitles the caller's untitled or placeholder-titled conversations, up to the
+  // plan's batch size per request; locked titles are never touched
+  api.post("/titles/regenerate", {
+    summary: "Generate titles for untitled conversations",
+    responses: { 200: titleRegenerationSchema },
+  }, async (req, res) => {
+    const plan = await getPlan(req, res);
+    const batch = getEntitlements(plan).titleRegenerationBatch;
+    const pending = (await storage.getConversations(getUserId(req))).filter(needsTitle);
+
+    const updated: { id: string; title: string }[] = [];
+    const failed: string[] = [];
+    for (const conversation of pending.slice(0, batch)) {
+      try {
+        const context = await loadChatContext(conversation);
+        const title = await generateConversationTitle(conversation, context.provider);
+        if (title) updated.push({ id: conversation.id, title });
+      } catch (error: any) {
+        logger.error("Title regeneration failed", { conversationId: conversation.id, error });
+        failed.push(conversation.id);
+      }
+    }
+
+    res.json({ updated, failed, remaining: Math.max(pending.length - batch, 0), batchSize: batch });
+  });
+
+  api.get("/:id", {
+    summary: "Get a conversation",
+    responses: { 200: conversationSchema },
+    apiKeyScope: "conversations:read",
+  }, loadConversation, (_req, res) => {
+    res.json(res.locals.conversation);
+  });
+
+  api.patch("/:id", {
+    summary: "Rename a conversation or lock its title",
+    body: updateConversationSchema,
+    responses: { 200: conversationSchema },
+  }, loadConversation, async (req, res, { body }) => {
+    const { title, titleLocked } = body;
+    if (title !== undefined) await storage.updateConversationTitle(req.params.id, title);
+    if (titleLocked !== undefined) await storage.setConversationTitleLocked(req.params.id, titleLocked);
+    res.json(await storage.getConversation(req.params.id));
+  });
+
+  api.delete("/:id", {
+    summary: "Delete a conversation",
+    responses: { 204: "Deleted" },
+  }, loadConversation, async (req, res) => {
+    await storage.deleteConversation(req.params.id, getUserId(req));
+    res.status(204).end();
+  });
+
+  // Download the active branch as Markdown, JSON (importable) or standalone HTML
+  api.get("/:id/export", {
+    summary: "Export a conversation",
+    query: exportQuerySchema,
+    responses: {
+      200: {
+        description: "The active branch as an attachment, in the requested format",
+        schema: z.string(),
+        contentType: "text/markdown",
+      },
+    },
+    apiKeyScope: "conversations:read",
+  }, loadConversation, async (_req, res, { query }) => {
+    const conversation: Conversation = res.locals.conversation;
+    const exported = exportConversation(conversation, await storage.getMessages(conversation.id));
+    const name = `conversation-${conversation.id}`;
+
+    switch (query.format) {
+      case "json":
+        res.attachment(`${name}.json`).json(toJson([exported]));
+        return;
+      case "html":
+        res.attachment(`${name}.html`).type("html").send(toHtml(exported));
+        return;
+      case "md":
+        res.attachment(`${name}.md`).type("text/markdown").send(toMarkdown(exported));
+        return;
+    }
+  });
+
+  // Share links for this conversation, newest first, including revoked and expired ones
+  api.get("/:id/shares", {
+    summary: "List a conversation's share links",
+    responses: { 200: z.array(shareLinkSchema) },
+  }, loadConversation, async (req, res) => {
+    const links = await storage.getShareLinks(req.params.id);
+    res.json(links.map(link => shareLinkSummary(link)));
+  });
+
+  // Snapshots the active branch behind a new public link
+  api.post("/:id/shares", {
+    summary: "Share a conversation",
+    body: createShareLinkSchema,
+    responses: { 201: shareLinkSchema },
+  }, loadConversation, async (req, res, { body }) => {
+    const conversation: Conversation = res.locals.conversation;
+    const messages = snapshotMessages(await storage.getMessages(conversation.id));
+    if (messages.length === 0) throw new ValidationError("Conversation has no messages to share");
+
+    const link = await storage.createShareLink({
+      conversationId: conversation.id,
+      userId: getUserId(req),
+      title: conversation.title,
+      persona: conversation.persona,
+      messages,
+      expiresAt: body.expiresAt ?? null,
+    });
+    res.status(201).json(shareLinkSummary(link));
+  });
+
+  // Revoking is permanent; the link keeps its view count for the owner's records
+  api.delete("/:id/shares/:shareId", {
+    summary: "Revoke a share link",
+    responses: { 200: shareLinkSchema },
+  }, loadConversation, async (req, res) => {
+    const link = await storage.getShareLink(req.params.shareId);
+    if (!link || link.conversationId !== req.params.id) {
+      throw new NotFoundError("Share link");
+    }
+
+    res.json(shareLinkSummary(await storage.revokeShareLink(link.id)));
+  });
+
+  // ?branches=all returns every branch (with parentId) instead of the active path
+  api.get("/:id/messages", {
+    summary: "List a conversation's messages",
+    query: listMessagesQuerySchema,
+    responses: { 200: z.array(messageSchema) },
+    apiKeyScope: "conversations:read",
+  }, loadConversation, async (req, res, { query }) => {
+    res.json(query.branches === "all"
+      ? await storage.getAllMessages(req.params.id)
+      : await storage.getMessages(req.params.id));
+  });
+
+  // The message and its siblings: every alternative at this turn, oldest first
+  api.get("/:id/messages/:messageId/alternatives", {
+    summary: "List the alternatives at a message's turn",
+    responses: { 200: z.object({ alternatives: z.array(messageSchema), index: z.number().int() }) },
+    apiKeyScope: "conversations:read",
+  }, loadConversation, loadMessage, async (req, res) => {
+    const alternatives = await storage.getSiblings(req.params.messageId);
+    res.json({
+      alternatives,
+      index: alternatives.findIndex(m => m.id === req.params.messageId),
+    });
+  });
+
+  // Switch to the branch through this message, following its newest replies
+  api.post("/:id/messages/:messageId/activate", {
+    summary: "Switch to the branch through a message",
+    responses: { 200: z.array(messageSchema) },
+  }, loadConversation, loadMessage, async (req, res) => {
+    res.json(await storage.setActiveBranch(req.params.id, req.params.messageId));
+  });
+
+  api.post("/:id/messages/:messageId/pin", {
+    summary: "Pin or unpin a message",
+    body: pinMessageSchema,
+    responses: { 200: messageSchema },
+  }, loadConversation, loadMessage, async (req, res, { body }) => {
+    res.json(await storage.pinMessage(req.params.messageId, body.isPinned));
+  });
+
+  // Toggles: reacting twice with the same emoji removes the reaction
+  api.post("/:id/messages/:messageId/reactions", {
+    summary: "Toggle a reaction on a message",
+    body: reactionSchema,
+    responses: { 200: messageSchema },
+  }, loadConversation, loadMessage, async (req, res, { body }) => {
+    const message = await storage.addReaction(req.params.messageId, {
+      emoji: body.emoji,
+      userId: getUserId(req),
+    });
+    res.json(message);
+  });
+
+  // Send a user message and stream the assistant reply (see streamReply)
+  api.post("/:id/messages", {
+    summary: "Send a message and stream the reply",
+    body: sendMessageSchema,
+    responses: { 200: chatStreamResponse },
+    apiKeyScope: "chat",
+  }, ...chatGuards, async (req, res, { body }) => {
+    const conversation: Conversation = res.locals.conversation;
+    await checkAttachments(getUserId(req), body.attachmentIds);
+    const context = await loadChatContext(conversation);
+    if (body.content) await checkModeration(context, body.content);
+    await chargeMessageQuota(req, res);
+
+    const userMessage = await storage.createMessage({
+      conversationId: conversation.id,
+      role: "user",
+      content: body.content,
+      imageUrl: body.imageUrl ?? null,
+      attachmentIds: body.attachmentIds,
+    });
+
+    const history = await storage.getMessagePath(userMessage.id);
+    const prompt = await buildPrompt(context, conversation, history);
+
+    await streamReply(res, { conversation, context, prompt, parentId: userMessage.id, userMessage });
+  });
+
+  // Edit a user turn: the new text becomes a sibling branch and gets a fresh reply
+  api.post("/:id/messages/:messageId/edit", {
+    summary: "Edit a message and stream a new reply",
+    body: editMessageSchema,
+    responses: { 200: chatStreamResponse },
+    apiKeyScope: "chat",
+  }, ...chatGuards, loadMessage, async (req, res, { body }) => {
+    const conversation: Conversation = res.locals.conversation;
+    const original: Message = res.locals.message;
+    if (original.role !== "user") throw new ValidationError("Only user messages can be edited");
+
+    const context = await loadChatContext(conversation);
+    await checkModeration(context, body.content);
+    await chargeMessageQuota(req, res);
+
+    const userMessage = await storage.createMessage({
+      conversationId: conversation.id,
+      parentId: original.parentId,
+      role: "user",
+      content: body.content,
+      imageUrl: original.imageUrl,
+      attachmentIds: original.attachmentIds,
+    });
+
+    const history = await storage.getMessagePath(userMessage.id);
+    const prompt = await buildPrompt(context, conversation, history);
+
+    await streamReply(res, { conversation, context, prompt, parentId: userMessage.id, userMessage });
+  });
+
+  // Regenerate an assistant turn as a new sibling under the same user message
+  api.post("/:id/messages/:messageId/regenerate", {
+    summary: "Regenerate a reply",
+    responses: { 200: chatStreamResponse },
+    apiKeyScope: "chat",
+  }, ...chatGuards, loadMessage, async (req, res) => {
+    const conversation: Conversation = res.locals.conversation;
+    const original: Message = res.locals.message;
+    if (original.role !== "assistant" || !original.parentId) {
+      throw new ValidationError("Only assistant replies can be regenerated");
+    }
+
+    const context = await loadChatContext(conversation);
+    await chargeMessageQuota(req, res);
+    const history = await storage.getMessagePath(original.parentId);
+    const prompt = await buildPrompt(context, conversation, history);
+
+    await streamReply(res, { conversation, context, prompt, parentId: original.parentId });
+  });
+
+  return api.router;
+}
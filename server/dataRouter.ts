@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { cheapestPlanWhere, getEntitlements } from "../shared/plans";
+import { storage } from "./storage";
+import { isAuthenticated, getUserId } from "./auth";
+import { getPlan } from "./entitlements";
+import { NotFoundError, PlanRequiredError } from "./errors";
+import { ApiRouter } from "./openapi";
+import { conversationSchema } from "./apiSchemas";
+import { buildAccountZip, importConversations, importSchema } from "./exportImport";
+
+// Account-level data portability: bulk export and import of conversations
+export function createDataRouter() {
+  const api = new ApiRouter("/api", "Data");
+
+  // Everything in the account as a zip: conversations.json (importable),
+  // one Markdown file per conversation, and account.json
+  api.get("/export", {
+    summary: "Export your account",
+    responses: {
+      200: { description: "A zip of every conversation and the account", schema: z.string(), contentType: "application/zip" },
+    },
+  }, isAuthenticated, async (req, res) => {
+    const user = await storage.getUser(getUserId(req));
+    if (!user) throw new NotFoundError("User");
+
+    const conversations = await storage.getConversations(user.id);
+    const zip = await buildAccountZip(user, conversations);
+
+    const day = new Date().toISOString().slice(0, 10);
+    res.attachment(`fizz-export-${day}.zip`).type("application/zip").send(zip);
+  });
+
+  // Accepts our JSON export or ChatGPT's conversations.json, up to the plan's
+  // importConversations per request
+  api.post("/import", {
+    summary: "Import conversations",
+    body: importSchema,
+    responses: {
+      201: z.object({ imported: z.number().int(), conversations: z.array(conversationSchema) }),
+    },
+  }, isAuthenticated, async (req, res, { body }) => {
+    const limit = getEntitlements(await getPlan(req, res)).importConversations;
+    if (body.length > limit) {
+      const requiredPlan = cheapestPlanWhere(e => e.importConversations >= body.length);
+      throw new PlanRequiredError("import_conversations", requiredPlan,
+        `Your plan imports at most ${limit} conversations at a time`);
+    }
+
+    const conversations = await importConversations(getUserId(req), body);
+    res.status(201).json({ imported: conversations.length, conversations });
+  });
+
+  return api.router;
+}
@@ -0,0 +1,63 @@
+import { Pool as PgPool } from "pg";
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzlePg, type NodePgQueryResultHKT } from "drizzle-orm/node-postgres";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import ws from "ws";
+import { logger } from "./logger";
+
+// Database configuration
+//
+//   DATABASE_URL   Postgres connection string
+//   DB_DRIVER      "pg" (node-postgres; any Postgres, e.g. a local container) or
+//                  "neon" (Neon's serverless driver over WebSockets); defaults to
+//                  "neon" for *.neon.tech hosts, else "pg"
+//   DB_POOL_MAX    connections per process (default 10), shared by storage and sessions
+
+export type DbDriver = "pg" | "neon";
+
+// Either driver's drizzle database; both support transactions, and Neon's
+// results have node-postgres's shape
+export type Database = PgDatabase<NodePgQueryResultHKT>;
+
+let pool: PgPool | undefined;
+let db: Database | undefined;
+
+function databaseUrl(): string {
+  if (!process.env.DATABASE_URL) throw new Error("DATABASE_URL must be set, or STORAGE=memory for in-memory storage");
+  return process.env.DATABASE_URL;
+}
+
+export function dbDriver(): DbDriver {
+  const driver = process.env.DB_DRIVER || (new URL(databaseUrl()).hostname.endsWith(".neon.tech") ? "neon" : "pg");
+  if (driver !== "pg" && driver !== "neon") throw new Error(`Unknown DB_DRIVER: ${driver}`);
+  return driver;
+}
+
+/**
+ * The process-wide connection pool, created on first use. Neon's Pool is
+ * node-postgres compatible, so connect-pg-simple can share either one.
+ */
+export function getPool(): PgPool {
+  if (!pool) {
+    const config = { connectionString: databaseUrl(), max: Number(process.env.DB_POOL_MAX) || 10 };
+    if (dbDriver() === "neon") {
+      // Node has no global WebSocket before v22
+      neonConfig.webSocketConstructor = ws;
+      pool = new NeonPool(config);
+    } else {
+      pool = new PgPool(config);
+    }
+    // A dropped idle connection is replaced on the next checkout; unhandled, it would crash the process
+    pool.on("error", error => logger.error("Idle database connection failed", { error }));
+  }
+  return pool;
+}
+
+export function getDb(): Database {
+  if (!db) {
+    const client = getPool();
+    db = client instanceof NeonPool ? drizzleNeon(client) : drizzlePg(client);
+  }
+  return db;
+}
@@ -0,0 +1,46 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { NotFoundError } from "./errors";
+import { ApiRouter } from "./openapi";
+import { applyProfile, logIn, type AuthProvider } from "./auth";
+
+const devLoginSchema = z.object({
+  userId: z.string().min(1).optional(),
+  email: z.string().trim().toLowerCase().email().optional(),
+  firstName: z.string().trim().min(1).max(100).optional(),
+  lastName: z.string().trim().min(1).max(100).optional(),
+}).refine(data => Boolean(data.userId) !== Boolean(data.email), "Give either userId or email");
+
+/**
+ * DevAuthProvider: signs in as any user without credentials, for local
+ * development and tests. `{ userId }` impersonates an existing account;
+ * `{ email }` uses the account with that email, creating it if needed.
+ * auth.ts refuses to enable it when NODE_ENV is production.
+ */
+export class DevAuthProvider implements AuthProvider {
+  readonly name = "dev";
+  readonly label = "Development login";
+
+  setup(app: Express) {
+    const api = new ApiRouter("/api/auth/dev", "Auth", "none");
+
+    api.post("/login", {
+      summary: "Sign in as any user (development only)",
+      body: devLoginSchema,
+      responses: { 200: z.object({ id: z.string(), email: z.string().nullable() }) },
+    }, async (req, res, { body }) => {
+      const { userId, email, firstName, lastName } = body;
+      let user = userId ? await storage.getUser(userId) : await storage.getUserByEmail(email!);
+      if (!user && userId) throw new NotFoundError("User");
+
+      user ??= await storage.createUser({ email, emailVerifiedAt: new Date() });
+      await applyProfile(user, { firstName, lastName });
+
+      await logIn(req, { id: user.id, provider: this.name });
+      res.json({ id: user.id, email: user.email });
+    });
+
+    app.use("/api/auth/dev", api.router);
+  }
+}
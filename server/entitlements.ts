@@ -0,0 +1,149 @@
+import type { Request, RequestHandler, Response } from "express";
+import { personas } from "../shared/personas";
+import {
+  canUsePersona,
+  cheapestPlanWhere,
+  getEntitlements,
+  normalizePlan,
+  plans,
+  type Plan,
+} from "../shared/plans";
+import { storage } from "./storage";
+import { isAuthenticated, getUserId } from "./auth";
+import { asyncHandler } from "./asyncHandler";
+import { isModelAllowed } from "./llm";
+import { ForbiddenError, NotFoundError, PlanRequiredError, ValidationError } from "./errors";
+import { ApiRouter } from "./openapi";
+import { usageSchema } from "./apiSchemas";
+
+// Quotas reset at midnight UTC
+export function usageDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function nextReset(date = new Date()): string {
+  const reset = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+  return reset.toISOString();
+}
+
+// The caller's plan, looked up once per request and cached on res.locals
+export async function getPlan(req: Request, res: Response): Promise<Plan> {
+  if (!res.locals.plan) {
+    const user = await storage.getUser(getUserId(req));
+    res.locals.plan = normalizePlan(user?.plan);
+  }
+  return res.locals.plan;
+}
+
+/**
+ * Rejects chats with personas the caller's plan doesn't include. Built-in
+ * personas are checked against the plan's persona list; any other id is a
+ * custom persona, which needs a plan with custom personas and must be one of
+ * the caller's own (404 otherwise).
+ */
+export function requirePersonaAccess(getPersonaId: (req: Request, res: Response) => string | undefined): RequestHandler {
+  return asyncHandler(async (req, res, next) => {
+    const personaId = getPersonaId(req, res);
+    if (!personaId) return next();
+
+    const plan = await getPlan(req, res);
+    const isBuiltIn = personas.some(p => p.id === personaId);
+
+    if (isBuiltIn && !canUsePersona(plan, personaId)) {
+      const requiredPlan = cheapestPlanWhere(e => e.personas === "all" || e.personas.includes(personaId));
+      throw new PlanRequiredError("persona", requiredPlan, `The ${personaId} persona requires the ${requiredPlan} plan`);
+    }
+
+    if (!isBuiltIn && getEntitlements(plan).customPersonas === 0) {
+      const requiredPlan = cheapestPlanWhere(e => e.customPersonas > 0);
+      throw new PlanRequiredError("custom_personas", requiredPlan, `Custom personas require the ${requiredPlan} plan`);
+    }
+
+    if (!isBuiltIn && !(await storage.getCustomPersona(personaId, getUserId(req)))) {
+      throw new NotFoundError("Persona");
+    }
+
+    next();
+  });
+}
+
+/**
+ * Counts one message against the daily quota; 403 once it is used up. Chat
+ * routes call it last, after the request is validated, loaded and moderated,
+ * so requests that fail never use up quota.
+ */
+export async function chargeMessageQuota(req: Request, res: Response) {
+  const plan = await getPlan(req, res);
+  const limit = getEntitlements(plan).dailyMessages;
+
+  const allowed = await storage.tryIncrementDailyUsage(getUserId(req), usageDay(), limit);
+  if (!allowed) {
+    const requiredPlan = cheapestPlanWhere(e => e.dailyMessages === null || e.dailyMessages > (limit ?? 0));
+    throw new ForbiddenError(`Daily message limit of ${limit} reached`, "quota_exceeded", {
+      feature: "daily_messages",
+      limit,
+      requiredPlan,
+      resetsAt: nextReset(),
+    });
+  }
+}
+
+// Guards creation of another custom persona against the plan's allowance
+export const enforceCustomPersonaLimit: RequestHandler = asyncHandler(async (req, res, next) => {
+  const plan = await getPlan(req, res);
+  const limit = getEntitlements(plan).customPersonas;
+  const existing = await storage.getCustomPersonas(getUserId(req));
+
+  if (existing.length >= limit) {
+    const requiredPlan = cheapestPlanWhere(e => e.customPersonas > existing.length);
+    throw new PlanRequiredError("custom_personas", requiredPlan, `Your plan allows ${limit} custom personas`);
+  }
+
+  next();
+});
+
+export function assertApiAccess(plan: Plan) {
+  if (!getEntitlements(plan).apiAccess) {
+    const requiredPlan = cheapestPlanWhere(e => e.apiAccess);
+    throw new PlanRequiredError("api_access", requiredPlan, `API access requires the ${requiredPlan} plan`);
+  }
+}
+
+// A custom persona's model must be on the caller's plan (LLM_MODELS_<PLAN>, see llm.ts)
+export function assertModelAllowed(plan: Plan, model: string | null | undefined) {
+  if (!model || isModelAllowed(plan, model)) return;
+
+  const requiredPlan = plans.find(p => isModelAllowed(p, model));
+  if (!requiredPlan) {
+    throw new ValidationError("Invalid request", { formErrors: [], fieldErrors: { model: ["Unknown model"] } });
+  }
+  throw new PlanRequiredError("model", requiredPlan, `The ${model} model requires the ${requiredPlan} plan`);
+}
+
+// Guards API key creation; apiKeys.ts checks existing keys against the plan on every use
+export const requireApiAccess: RequestHandler = asyncHandler(async (req, res, next) => {
+  assertApiAccess(await getPlan(req, res));
+  next();
+});
+
+export function createEntitlementsRouter() {
+  const api = new ApiRouter("/api/entitlements", "Plans");
+
+  api.use(isAuthenticated);
+
+  // The caller's plan, what it unlocks and today's usage
+  api.get("/", {
+    summary: "Get your plan and today's usage",
+    responses: { 200: usageSchema },
+  }, async (req, res) => {
+    const plan = await getPlan(req, res);
+    const messagesToday = await storage.getDailyUsage(getUserId(req), usageDay());
+    res.json({
+      plan,
+      entitlements: getEntitlements(plan),
+      usage: { day: usageDay(), messages: messagesToday, resetsAt: nextReset() },
+    });
+  });
+
+  return api.router;
+}
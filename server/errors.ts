@@ -0,0 +1,142 @@
+import type { Response } from "express";
+import { ZodError, type ZodIssue } from "zod";
+import type { Plan } from "../shared/plans";
+
+// Error responses are JSON: { error: <code>, message, ...details }. Clients
+// branch on the code; the message is for people.
+export interface ErrorBody {
+  error: string;
+  message: string;
+  [detail: string]: unknown;
+}
+
+/**
+ * AppError: an expected failure with an HTTP status. Route code throws these
+ * and the error middleware turns them into responses; anything else that
+ * reaches it is a bug and becomes a logged 500.
+ */
+export class AppError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toJSON(): ErrorBody {
+    return { error: this.code, message: this.message, ...this.details };
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(resource: string) {
+    super(404, "not_found", `${resource} not found`);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Unauthorized") {
+    super(401, "unauthorized", message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = "Forbidden", code = "forbidden", details?: Record<string, unknown>) {
+    super(403, code, message, details);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, code = "conflict") {
+    super(409, code, message);
+  }
+}
+
+export interface FieldErrors {
+  formErrors: string[];
+  // Keyed by dotted path, e.g. "messages.0.content"
+  fieldErrors: Record<string, string[]>;
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, errors: FieldErrors = { formErrors: [], fieldErrors: {} }) {
+    super(400, "validation_failed", message, { details: errors });
+  }
+
+  // Unlike ZodError.flatten(), nested fields keep their full path
+  static fromZod(error: ZodError, message = "Invalid request"): ValidationError {
+    const errors: FieldErrors = { formErrors: [], fieldErrors: {} };
+    for (const issue of error.issues.flatMap(closestUnionIssues)) {
+      if (issue.path.length === 0) {
+        errors.formErrors.push(issue.message);
+      } else {
+        const path = issue.path.join(".");
+        (errors.fieldErrors[path] ??= []).push(issue.message);
+      }
+    }
+    return new ValidationError(message, errors);
+  }
+}
+
+// A failed union reports every alternative's issues. Only the alternative
+// that got furthest is kept: past the type check, with the deepest issues.
+function closestUnionIssues(issue: ZodIssue): ZodIssue[] {
+  if (issue.code !== "invalid_union") return [issue];
+
+  const reach = (error: ZodError) => Math.max(...error.issues.map(i =>
+    (i.code === "invalid_type" && i.path.length === issue.path.length ? -1 : i.path.length)));
+  const closest = issue.unionErrors.reduce((best, candidate) => (reach(candidate) > reach(best) ? candidate : best));
+  return closest.issues.flatMap(closestUnionIssues);
+}
+
+// 402: the feature exists but the caller's plan doesn't include it
+export class PlanRequiredError extends AppError {
+  constructor(feature: string, requiredPlan: Plan | null, message: string) {
+    super(402, "plan_required", message, { feature, requiredPlan });
+  }
+}
+
+export class RateLimitedError extends AppError {
+  constructor(policy: string, readonly retryAfter: number) {
+    super(429, "rate_limited", "Too many requests, try again later", { policy, retryAfter });
+  }
+}
+
+// The model backend failed or is unreachable; the details stay in the logs
+export class UpstreamProviderError extends AppError {
+  constructor(provider: string, readonly cause?: unknown) {
+    super(502, "upstream_error", `The ${provider} model provider failed to respond`, { provider });
+  }
+}
+
+/**
+ * Maps anything thrown to an AppError: zod failures and body-parser errors
+ * become their 4xx equivalents, everything else is null (an unexpected error).
+ */
+export function toAppError(error: unknown): AppError | null {
+  if (error instanceof AppError) return error;
+  if (error instanceof ZodError) return ValidationError.fromZod(error);
+
+  // body-parser marks client errors (malformed JSON, oversized bodies) with expose
+  const status = exposedStatus(error);
+  if (error instanceof Error && status !== undefined && status >= 400 && status < 500) {
+    if (status === 413) return new AppError(413, "payload_too_large", "Request body is too large");
+    return new ValidationError("Malformed request body", { formErrors: [error.message], fieldErrors: {} });
+  }
+  return null;
+}
+
+// The status of an http-errors style error (what body-parser throws) that is safe to show the client
+function exposedStatus(error: unknown): number | undefined {
+  if (!(error instanceof Error) || !("expose" in error) || error.expose !== true) return undefined;
+  const status = "status" in error ? error.status : "statusCode" in error ? error.statusCode : undefined;
+  return typeof status === "number" ? status : undefined;
+}
+
+// For code that has to answer directly instead of throwing (callbacks, streams)
+export function sendError(res: Response, error: AppError) {
+  return res.status(error.status).json(error.toJSON());
+}
@@ -0,0 +1,274 @@
+import JSZip from "jszip";
+import { z } from "zod";
+import type { Conversation, Message, User } from "../shared/schema";
+import { DEFAULT_PERSONA_ID } from "../shared/personas";
+import { storage } from "./storage";
+
+export const EXPORT_FORMAT = "fizz.conversations";
+export const EXPORT_VERSION = 1;
+// The most any plan may import at once (see entitlements.importConversations)
+export const MAX_IMPORT_CONVERSATIONS = 1000;
+
+// Our own portable format; exports write it and imports accept it back
+const exportedMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  imageUrl: z.string().nullable().optional(),
+  isPinned: z.boolean().optional(),
+  reactions: z.array(z.object({ emoji: z.string() })).optional(),
+  createdAt: z.coerce.date().optional(),
+});
+
+const exportedConversationSchema = z.object({
+  title: z.string().min(1),
+  persona: z.string().optional(),
+  createdAt: z.coerce.date().optional(),
+  messages: z.array(exportedMessageSchema),
+});
+
+export const fizzExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  conversations: z.array(exportedConversationSchema).max(MAX_IMPORT_CONVERSATIONS),
+});
+
+export type ExportedMessage = z.infer<typeof exportedMessageSchema>;
+export type ExportedConversation = z.infer<typeof exportedConversationSchema>;
+
+// The subset of ChatGPT's conversations.json we read. Messages live in a
+// tree keyed by node id; current_node is the leaf of the branch shown.
+const chatGptNodeSchema = z.object({
+  parent: z.string().nullable().optional(),
+  message: z.object({
+    author: z.object({ role: z.string() }),
+    create_time: z.number().nullable().optional(),
+    content: z.object({
+      content_type: z.string(),
+      parts: z.array(z.unknown()).optional(),
+    }).passthrough(),
+    metadata: z.record(z.unknown()).optional(),
+  }).passthrough().nullable().optional(),
+}).passthrough();
+
+const chatGptConversationSchema = z.object({
+  title: z.string().nullable().optional(),
+  create_time: z.number().nullable().optional(),
+  current_node: z.string().nullable().optional(),
+  mapping: z.record(chatGptNodeSchema),
+}).passthrough();
+
+export const chatGptExportSchema = z.array(chatGptConversationSchema).max(MAX_IMPORT_CONVERSATIONS);
+
+export function exportConversation(conversation: Conversation, messages: Message[]): ExportedConversation {
+  return {
+    title: conversation.title,
+    persona: conversation.persona,
+    createdAt: conversation.createdAt,
+    messages: messages
+      .filter(m => m.role === "user" || m.role === "assistant")
+      .map(m => ({
+        role: m.role as ExportedMessage["role"],
+        content: m.content,
+        imageUrl: m.imageUrl,
+        isPinned: m.isPinned === "true",
+        reactions: (m.reactions ?? []).map(r => ({ emoji: r.emoji })),
+        createdAt: m.createdAt,
+      })),
+  };
+}
+
+export function toJson(conversations: ExportedConversation[]) {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations,
+  };
+}
+
+// Image URLs that exports may link to; anything else (javascript:, file:, ...) is dropped
+function isSafeImageUrl(url: string | null | undefined): url is string {
+  return !!url && /^(https?:|data:image\/)/i.test(url);
+}
+
+function speaker(role: string) {
+  return role === "user" ? "You" : "Fizz";
+}
+
+export function toMarkdown(conversation: ExportedConversation): string {
+  const lines = [`# ${conversation.title}`, ""];
+  const meta = [
+    conversation.persona && `Persona: ${conversation.persona}`,
+    conversation.createdAt && `Created: ${conversation.createdAt.toISOString()}`,
+  ].filter(Boolean);
+  if (meta.length) lines.push(`_${meta.join(" · ")}_`, "");
+
+  for (const message of conversation.messages) {
+    const pin = message.isPinned ? " 📌" : "";
+    const time = message.createdAt ? ` (${message.createdAt.toISOString()})` : "";
+    lines.push("---", "", `**${speaker(message.role)}**${time}${pin}`, "", message.content, "");
+    if (isSafeImageUrl(message.imageUrl)) lines.push(`![image](<${message.imageUrl.replace(/[<>]/g, encodeURIComponent)}>)`, "");
+    if (message.reactions?.length) lines.push(message.reactions.map(r => r.emoji).join(" "), "");
+  }
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function toHtml(conversation: ExportedConversation): string {
+  const body = conversation.messages.map(message => {
+    const image = isSafeImageUrl(message.imageUrl) ? `<img src="${escapeHtml(message.imageUrl)}" alt="">` : "";
+    const reactions = message.reactions?.length
+      ? `<div class="reactions">${escapeHtml(message.reactions.map(r => r.emoji).join(" "))}</div>`
+      : "";
+    const time = message.createdAt ? `<time>${message.createdAt.toISOString()}</time>` : "";
+    return `<section class="message ${message.role}${message.isPinned ? " pinned" : ""}">
+<header><strong>${speaker(message.role)}</strong> ${time}</header>
+<div class="content">${escapeHtml(message.content)}</div>${image}${reactions}
+</section>`;
+  }).join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(conversation.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2933; }
+.message { border-radius: 0.75rem; padding: 0.75rem 1rem; margin: 1rem 0; }
+.user { background: #eef2ff; }
+.assistant { background: #f5f5f4; }
+.pinned { outline: 2px solid #f59e0b; }
+.content { white-space: pre-wrap; }
+img { max-width: 100%; margin-top: 0.5rem; }
+time { color: #6b7280; font-size: 0.8rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(conversation.title)}</h1>
+${body}
+</body>
+</html>
+`;
+}
+
+// Safe, readable file name for a conversation inside the zip
+function fileName(conversation: Conversation): string {
+  const slug = conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 50);
+  return `${slug || "conversation"}-${conversation.id.slice(0, 8)}`;
+}
+
+// Whole-account export: profile and memory, every conversation as JSON and Markdown
+export async function buildAccountZip(user: User, conversations: Conversation[]): Promise<Buffer> {
+  const zip = new JSZip();
+  const exported: ExportedConversation[] = [];
+
+  for (const conversation of conversations) {
+    const data = exportConversation(conversation, await storage.getMessages(conversation.id));
+    exported.push(data);
+    zip.file(`markdown/${fileName(conversation)}.md`, toMarkdown(data));
+  }
+
+  const customPersonas = await storage.getCustomPersonas(user.id);
+  zip.file("conversations.json", JSON.stringify(toJson(exported), null, 2));
+  zip.file("account.json", JSON.stringify({
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    plan: user.plan,
+    memory: user.memory,
+    preferences: user.preferences,
+    customPersonas: customPersonas.map(({ id, userId, ...persona }) => persona),
+  }, null, 2));
+
+  return await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+function chatGptText(parts: unknown[] | undefined): { content: string; imageUrl: string | null } {
+  const text: string[] = [];
+  let imageUrl: string | null = null;
+
+  for (const part of parts ?? []) {
+    if (typeof part === "string") {
+      text.push(part);
+    } else if (part && typeof part === "object") {
+      // Uploaded images are asset pointers; only real URLs survive the move
+      const pointer = (part as any).asset_pointer ?? (part as any).url;
+      if (typeof pointer === "string" && /^https?:\/\//.test(pointer)) imageUrl ??= pointer;
+    }
+  }
+  return { content: text.join("\n").trim(), imageUrl };
+}
+
+function fromEpoch(seconds: number | null | undefined): Date | undefined {
+  return typeof seconds === "number" ? new Date(seconds * 1000) : undefined;
+}
+
+// Converts ChatGPT's tree to our format, keeping the branch that was on screen
+export function fromChatGpt(data: z.infer<typeof chatGptExportSchema>): ExportedConversation[] {
+  return data.map(conversation => {
+    const path: ExportedMessage[] = [];
+    const visited = new Set<string>();
+
+    let nodeId = conversation.current_node ?? null;
+    while (nodeId && !visited.has(nodeId)) {
+      visited.add(nodeId);
+      const node = conversation.mapping[nodeId];
+      if (!node) break;
+
+      const message = node.message;
+      const role = message?.author.role;
+      const hidden = message?.metadata?.is_visually_hidden_from_conversation === true;
+      if (message && !hidden && (role === "user" || role === "assistant")) {
+        const { content, imageUrl } = chatGptText(message.content.parts);
+        if (content || imageUrl) {
+          path.push({ role, content, imageUrl, createdAt: fromEpoch(message.create_time) });
+        }
+      }
+      nodeId = node.parent ?? null;
+    }
+
+    return {
+      title: conversation.title?.trim() || "Imported chat",
+      persona: DEFAULT_PERSONA_ID,
+      createdAt: fromEpoch(conversation.create_time),
+      messages: path.reverse(),
+    };
+  });
+}
+
+// Accepts either our export or ChatGPT's conversations.json
+export const importSchema = z.union([fizzExportSchema, chatGptExportSchema])
+  .transform(data => (Array.isArray(data) ? fromChatGpt(data) : data.conversations));
+
+// Recreates conversations through IStorage, reactions re-attributed to the importer.
+// Each conversation is created whole or not at all; a failure stops the import
+// with the earlier conversations kept.
+export async function importConversations(userId: string, imported: ExportedConversation[]): Promise<Conversation[]> {
+  const created: Conversation[] = [];
+
+  for (const data of imported) {
+    const conversation = await storage.importConversation(
+      { title: data.title, persona: data.persona ?? DEFAULT_PERSONA_ID },
+      userId,
+      data.createdAt,
+      data.messages.map(message => ({
+        role: message.role,
+        content: message.content,
+        imageUrl: message.imageUrl ?? null,
+        isPinned: message.isPinned ? "true" : "false",
+        reactions: (message.reactions ?? []).map(r => ({ emoji: r.emoji, userId })),
+        createdAt: message.createdAt,
+      })),
+    );
+    created.push(conversation);
+  }
+
+  return created;
+}
@@ -0,0 +1,130 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+
+/**
+ * FileStore: where attachment bytes live. Keys are opaque, slash-separated
+ * paths chosen by the caller; the store never interprets them.
+ */
+export interface FileStore {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// Files under a local directory; for development and tests
+export class LocalFileStore implements FileStore {
+  readonly name = "local";
+
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+export interface S3FileStoreOptions {
+  bucket: string;
+  region: string;
+  // Set for S3-compatible services (R2, MinIO, ...)
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+// Objects in an S3 (or S3-compatible) bucket; for production
+export class S3FileStore implements FileStore {
+  readonly name = "s3";
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: S3FileStoreOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!result.Body) throw new Error(`Empty object: ${key}`);
+    return Buffer.from(await result.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+// File store configuration
+//
+//   FILE_STORE              "local" or "s3" (defaults to "s3" when S3_BUCKET is set, else "local")
+//   UPLOADS_DIR             root directory for the local store (default ./uploads)
+//   S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_FORCE_PATH_STYLE
+//   S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY (optional; the AWS default chain is used otherwise)
+
+let fileStore: FileStore | undefined;
+
+function createFileStore(): FileStore {
+  const name = process.env.FILE_STORE || (process.env.S3_BUCKET ? "s3" : "local");
+  switch (name) {
+    case "local":
+      return new LocalFileStore(process.env.UPLOADS_DIR || path.resolve("uploads"));
+    case "s3":
+      if (!process.env.S3_BUCKET) throw new Error("S3_BUCKET must be set to use the s3 file store");
+      return new S3FileStore({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+    default:
+      throw new Error(`Unknown file store: ${name}`);
+  }
+}
+
+export function getFileStore(): FileStore {
+  fileStore ??= createFileStore();
+  return fileStore;
+}
+
+// Replace the configured store, e.g. with a temporary directory in tests
+export function setFileStore(store: FileStore) {
+  fileStore = store;
+}
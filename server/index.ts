@@ -1,30 +1,46 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { currentRequestId, logger, requestLogger } from "./logger";
+import { RateLimitedError, sendError, toAppError } from "./errors";
 import { runMigrations, StripeSync } from 'stripe-replit-sync';
 import { getStripeSecretKey, getStripeWebhookSecret } from "./stripeClient";
 import { WebhookHandlers } from "./webhookHandlers";
+import { validatePriceCatalog } from "./priceCatalog";
+import { validateProviderConfig } from "./llm";
+
+// Throws, stopping the process, when no usable LLM provider is configured
+validateProviderConfig();
 
 const app = express();
 
+// Request ids and access logs, ahead of everything including the webhook
+app.use(requestLogger);
+
 // Initialize Stripe schema and sync data on startup
 async function initStripe() {
   const databaseUrl = process.env.DATABASE_URL;
-  
+
+  // The in-memory backend serves seeded Stripe fixtures instead of a synced schema
+  if (process.env.STORAGE === "memory") {
+    logger.info('In-memory storage - skipping Stripe sync');
+    return;
+  }
+
   if (!databaseUrl) {
-    console.warn('DATABASE_URL not found - skipping Stripe initialization');
+    logger.warn('DATABASE_URL not found - skipping Stripe initialization');
     return;
   }
 
   try {
-    console.log('Initializing Stripe schema...');
+    logger.info('Initializing Stripe schema');
     await runMigrations({ 
       databaseUrl,
       schema: 'stripe'
     });
-    console.log('Stripe schema ready');
+    logger.info('Stripe schema ready');
 
-    console.log('Syncing Stripe data...');
+    logger.info('Syncing Stripe data');
     const secretKey = await getStripeSecretKey();
     const webhookSecret = await getStripeWebhookSecret();
     
@@ -39,28 +55,44 @@ async function initStripe() {
     
     try {
       await stripeSync.syncBackfill();
-      console.log('Stripe data synced successfully');
+      logger.info('Stripe data synced successfully');
     } catch (syncError: any) {
       const isTestModeError = 
         syncError?.message?.includes('similar object exists in test mode') ||
         (syncError?.raw?.code === 'resource_missing' && syncError?.raw?.param === 'customer');
       
       if (isTestModeError) {
-        console.warn('⚠️  Stripe sync warning: Database contains test mode data but live keys are being used.');
-        console.warn('   This is expected when migrating from test to live mode.');
-        console.warn('   New data will sync correctly. To clean up, clear the Stripe tables in your database.');
-        console.log('Stripe initialization complete (with warnings)');
+        logger.warn('Stripe sync: database contains test mode data but live keys are being used', {
+          hint: 'Expected when migrating from test to live mode; new data syncs correctly. To clean up, clear the Stripe tables.',
+        });
+        logger.info('Stripe initialization complete (with warnings)');
       } else {
-        console.error('Failed to initialize Stripe - critical error:', syncError);
+        logger.error('Stripe sync failed', { error: syncError });
         throw syncError;
       }
     }
   } catch (error) {
-    console.error('Failed to initialize Stripe:', error);
+    logger.error('Failed to initialize Stripe', { error });
     throw error;
   }
 }
 
+// Runs on every start, whether or not the Stripe sync ran. In production a plan
+// without a usable price stops startup; elsewhere (e.g. no Stripe keys in
+// development) it is logged and checkout for that plan returns 503.
+async function checkPriceCatalog() {
+  try {
+    const unavailablePlans = await validatePriceCatalog();
+    if (unavailablePlans.length > 0) {
+      throw new Error(`No usable Stripe price for: ${unavailablePlans.join(', ')}`);
+    }
+    logger.info('Price catalog validated');
+  } catch (error) {
+    if (process.env.NODE_ENV === 'production') throw error;
+    logger.warn('Price catalog check failed - billing is limited', { error });
+  }
+}
+
 // CRITICAL: Register Stripe webhook route BEFORE express.json()
 // Webhook needs raw Buffer, not parsed JSON
 app.post(
@@ -81,7 +113,7 @@ app.post(
         const errorMsg = 'STRIPE WEBHOOK ERROR: req.body is not a Buffer. ' +
           'This means express.json() ran before this webhook route. ' +
           'FIX: Move this webhook route registration BEFORE app.use(express.json()) in your code.';
-        console.error(errorMsg);
+        logger.error(errorMsg);
         return res.status(500).json({ error: 'Webhook processing error' });
       }
       
@@ -89,7 +121,7 @@ app.post(
       
       res.status(200).json({ received: true });
     } catch (error: any) {
-      console.error('Webhook error:', error.message);
+      logger.warn('Webhook error', { error: error.message });
       res.status(400).json({ error: 'Webhook processing error' });
     }
   }
@@ -100,57 +132,48 @@ declare module 'http' {
     rawBody: unknown
   }
 }
+// Conversation imports (ChatGPT exports run large) are the one JSON body allowed
+// past the default limit; registered first, so the parser below skips them.
+// Files are uploaded as multipart to /api/attachments, never inside JSON.
+app.use('/api/import', express.json({ limit: '25mb' }));
+
 // Now apply JSON middleware for all other routes
 app.use(express.json({
-  limit: '50mb',
+  limit: '1mb',
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
 }));
-app.use(express.urlencoded({ extended: false, limit: '50mb' }));
-
-app.use((req, res, next) => {
-  const start = Date.now();
-  const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
-
-  res.on("finish", () => {
-    const duration = Date.now() - start;
-    if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
+app.use(express.urlencoded({ extended: false, limit: '1mb' }));
 
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
-
-      log(logLine);
-    }
-  });
-
-  next();
+// Last line of defence for promises nobody awaited; logged instead of crashing
+process.on("unhandledRejection", reason => {
+  logger.error("Unhandled promise rejection", { error: reason });
 });
 
 (async () => {
   // Initialize Stripe on startup
   await initStripe();
+  await checkPriceCatalog();
   
   const server = await registerRoutes(app);
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
+  // Expected errors become their JSON response; anything else is logged and
+  // answered with a 500. Nothing is rethrown, so one bad request can't take the process down.
+  app.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
+    const appError = toAppError(err);
+    if (!appError) {
+      logger.error("Unhandled error", { method: req.method, path: req.originalUrl.split("?")[0], error: err });
+    } else if (appError.status >= 500) {
+      logger.error(appError.message, { code: appError.code, error: appError });
+    }
 
-    res.status(status).json({ message });
-    throw err;
+    // Too late for an error response (e.g. mid-stream); Express closes the connection
+    if (res.headersSent) return next(err);
+
+    if (appError instanceof RateLimitedError) res.setHeader("Retry-After", appError.retryAfter);
+    if (appError) return sendError(res, appError);
+    res.status(500).json({ error: "internal_error", message: "Internal Server Error", requestId: currentRequestId() });
   });
 
   // importantly only setup vite in development and after
@@ -174,4 +197,7 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
-})();
+})().catch(error => {
+  logger.error('Startup failed', { error });
+  process.exit(1);
+});
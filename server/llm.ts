@@ -0,0 +1,168 @@
+import { OpenAIProvider, OpenAICompatibleProvider } from "./openaiProvider";
+import { MockProvider } from "./mockProvider";
+
+export type ChatRole = "system" | "user" | "assistant";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  // Images for vision models, as https: or data: URLs; providers turn them into content parts
+  images?: string[];
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface ChatResult {
+  content: string;
+  model: string;
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: string[];
+}
+
+/**
+ * LLMProvider: everything generation code needs from a model backend.
+ * Pattern: feature code never imports a vendor SDK, it asks selectProvider()
+ * for a provider and talks to this interface.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult>;
+  generateTitle(messages: ChatMessage[], signal?: AbortSignal): Promise<string>;
+  moderate(input: string): Promise<ModerationResult>;
+}
+
+export const TITLE_PROMPT =
+  "Write a short title (at most 6 words) for the conversation below. " +
+  "Reply with the title only, no quotes and no trailing punctuation.";
+
+// Shared by providers that generate titles through a plain chat completion
+export async function generateTitleWithChat(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+): Promise<string> {
+  const transcript = messages
+    .filter(m => m.role !== "system")
+    .map(m => `${m.role}: ${m.content}`)
+    .join("\n");
+
+  const result = await provider.chat({
+    messages: [
+      { role: "system", content: TITLE_PROMPT },
+      { role: "user", content: transcript },
+    ],
+    temperature: 0.3,
+    maxTokens: 20,
+    signal,
+  });
+
+  return result.content.trim().replace(/^["']|["']$/g, "").replace(/[.!?]+$/, "");
+}
+
+// Provider configuration
+//
+//   LLM_PROVIDER            default provider: "openai", "compatible" or "mock"
+//                           (defaults to "openai" when OPENAI_API_KEY is set; outside
+//                           production it falls back to "mock", in production it is required)
+//   LLM_PROVIDER_<PLAN>     per-plan override, e.g. LLM_PROVIDER_PRO=openai
+//   LLM_MODELS_<PLAN>       models custom personas on that plan may request, comma-separated,
+//                           e.g. LLM_MODELS_PRO=gpt-4o,gpt-4o-mini; unset, the plan gets
+//                           provider defaults only
+//   LLM_PERSONA_PROVIDERS   per-persona overrides, e.g. "coder=compatible,chef=mock"
+//   OPENAI_API_KEY, OPENAI_MODEL
+//   LLM_COMPATIBLE_BASE_URL, LLM_COMPATIBLE_API_KEY, LLM_COMPATIBLE_MODEL
+
+const providers = new Map<string, LLMProvider>();
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+      });
+    case "compatible":
+      if (!process.env.LLM_COMPATIBLE_BASE_URL) {
+        throw new Error("LLM_COMPATIBLE_BASE_URL must be set to use the compatible provider");
+      }
+      return new OpenAICompatibleProvider({
+        baseURL: process.env.LLM_COMPATIBLE_BASE_URL,
+        apiKey: process.env.LLM_COMPATIBLE_API_KEY,
+        model: process.env.LLM_COMPATIBLE_MODEL || "default",
+      });
+    case "mock":
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+export function getProvider(name: string): LLMProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+// Replace (or add) a provider instance, e.g. a pre-scripted MockProvider
+export function registerProvider(provider: LLMProvider) {
+  providers.set(provider.name, provider);
+}
+
+function parsePersonaProviders(): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  for (const entry of (process.env.LLM_PERSONA_PROVIDERS || "").split(",")) {
+    const [persona, provider] = entry.split("=").map(s => s.trim());
+    if (persona && provider) overrides[persona] = provider;
+  }
+  return overrides;
+}
+
+function defaultProviderName(): string {
+  if (process.env.LLM_PROVIDER) return process.env.LLM_PROVIDER;
+  if (process.env.OPENAI_API_KEY) return "openai";
+  // A production deploy must never answer real users with mock replies by accident
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("No LLM provider configured: set OPENAI_API_KEY or LLM_PROVIDER");
+  }
+  return "mock";
+}
+
+// Creates every configured provider up front, so a misconfiguration fails at
+// startup rather than on a user's first message
+export function validateProviderConfig() {
+  const names = new Set([defaultProviderName(), ...Object.values(parsePersonaProviders())]);
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key.startsWith("LLM_PROVIDER_") && value) names.add(value);
+  }
+  names.forEach(getProvider);
+}
+
+export function modelsForPlan(plan: string): string[] {
+  return (process.env[`LLM_MODELS_${plan.toUpperCase()}`] || "").split(",").map(m => m.trim()).filter(Boolean);
+}
+
+export function isModelAllowed(plan: string, model: string): boolean {
+  return modelsForPlan(plan).includes(model);
+}
+
+// Persona overrides win over plan overrides, which win over the default
+export function selectProvider(options: { personaId?: string; plan?: string } = {}): LLMProvider {
+  const personaOverride = options.personaId ? parsePersonaProviders()[options.personaId] : undefined;
+  const planOverride = options.plan ? process.env[`LLM_PROVIDER_${options.plan.toUpperCase()}`] : undefined;
+
+  return getProvider(personaOverride || planOverride || defaultProviderName());
+}
@@ -0,0 +1,92 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express, { type NextFunction, type Request, type Response } from "express";
+import { setupAuth } from "./auth";
+import { sendError, toAppError } from "./errors";
+import { setMailTransport, type MailMessage } from "./mailer";
+
+// Email and password sign-up and sign-in through the real routes, on the
+// in-memory backend (npm test sets STORAGE=memory), with mail captured
+process.env.AUTH_PROVIDERS = "local";
+process.env.SESSION_SECRET = "test-session-secret";
+process.env.APP_URL = "https://fizz.test";
+
+const mail: MailMessage[] = [];
+setMailTransport({ name: "capture", send: async message => { mail.push(message); } });
+
+let server: Server;
+let base: string;
+let emailCount = 0;
+
+async function post(path: string, body: unknown) {
+  const res = await fetch(`${base}/api/auth/local${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+// The token in the most recent mail to the address
+function lastToken(email: string): string {
+  const message = mail.filter(m => m.to === email).at(-1);
+  const token = message?.text.match(/token=([\w-]+)/)?.[1];
+  assert.ok(token, `no link mailed to ${email}`);
+  return token;
+}
+
+describe("local auth", () => {
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    await setupAuth(app);
+    app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+      const appError = toAppError(err);
+      if (appError) return sendError(res, appError);
+      res.status(500).json({ error: "internal_error" });
+    });
+    server = app.listen(0, "127.0.0.1");
+    await new Promise(resolve => server.once("listening", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("signs in after the emailed link is followed", async () => {
+    const email = `user${++emailCount}@example.com`;
+    assert.equal((await post("/register", { email, password: "correct horse" })).status, 202);
+    // Unconfirmed
+    assert.equal((await post("/login", { email, password: "correct horse" })).status, 403);
+
+    assert.equal((await post("/verify-email", { token: lastToken(email) })).status, 200);
+    assert.equal((await post("/login", { email, password: "correct horse" })).status, 200);
+  });
+
+  it("answers a taken email like a new one and tells the owner", async () => {
+    const email = `user${++emailCount}@example.com`;
+    await post("/register", { email, password: "correct horse" });
+    await post("/verify-email", { token: lastToken(email) });
+
+    const again = await post("/register", { email, password: "other password" });
+    assert.deepEqual(again, { status: 202, body: { sent: true } });
+    assert.equal(mail.at(-1)?.subject, "You already have a Fizz account");
+    assert.equal((await post("/login", { email, password: "other password" })).status, 401);
+  });
+
+  it("keeps the password of the last sign-up before confirmation", async () => {
+    const email = `user${++emailCount}@example.com`;
+    // Someone else registers the address first, then its owner signs up
+    await post("/register", { email, password: "attacker password" });
+    const firstLink = lastToken(email);
+    await post("/register", { email, password: "owner password" });
+
+    assert.equal((await post("/verify-email", { token: firstLink })).status, 400);
+    assert.equal((await post("/verify-email", { token: lastToken(email) })).status, 200);
+    assert.equal((await post("/login", { email, password: "attacker password" })).status, 401);
+    assert.equal((await post("/login", { email, password: "owner password" })).status, 200);
+  });
+});
@@ -0,0 +1,254 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import type { AuthTokenPurpose, User } from "../shared/schema";
+import { storage } from "./storage";
+import { AppError, ForbiddenError, UnauthorizedError } from "./errors";
+import { getMailTransport } from "./mailer";
+import { ApiRouter } from "./openapi";
+import { mailSentSchema, signedInSchema } from "./apiSchemas";
+import { appUrl, applyProfile, logIn, type AuthProvider, type SessionUser } from "./auth";
+
+// scrypt cost N=2^15, r=8, p=1 (32 MB, tens of milliseconds). The parameters
+// are stored with each hash, so raising them later doesn't break old hashes.
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+const VERIFY_EMAIL_TTL_MS = 24 * 60 * 60 * 1000;
+const RESET_PASSWORD_TTL_MS = 60 * 60 * 1000;
+
+function scryptKey(password: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  const options: ScryptOptions = { ...params, maxmem: 256 * params.N * params.r };
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+// "scrypt$N$r$p$salt$key", salt and key in base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ["scrypt", N, r, p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !key) return false;
+
+  const expected = Buffer.from(key, "base64");
+  const actual = await scryptKey(password, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Checked against unknown emails so they take as long to reject as wrong passwords
+let decoyHash: Promise<string> | undefined;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function issueToken(userId: string, purpose: AuthTokenPurpose, ttlMs: number): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  await storage.createAuthToken({ tokenHash: hashToken(token), userId, purpose, expiresAt: new Date(Date.now() + ttlMs) });
+  return token;
+}
+
+async function consumeToken(token: string, purpose: AuthTokenPurpose) {
+  const consumed = await storage.consumeAuthToken(hashToken(token), purpose);
+  if (!consumed) throw new AppError(400, "invalid_token", "This link is invalid or has expired");
+  return consumed;
+}
+
+async function sendVerificationMail(user: User) {
+  const token = await issueToken(user.id, "verify_email", VERIFY_EMAIL_TTL_MS);
+  await getMailTransport().send({
+    to: user.email!,
+    subject: "Confirm your email for Fizz",
+    text: `Confirm your email address to finish setting up your Fizz account:\n\n` +
+      `${appUrl()}/verify-email?token=${token}\n\nThe link expires in 24 hours.`,
+  });
+}
+
+async function sendPasswordResetMail(user: User) {
+  const token = await issueToken(user.id, "reset_password", RESET_PASSWORD_TTL_MS);
+  await getMailTransport().send({
+    to: user.email!,
+    subject: "Reset your Fizz password",
+    text: `Someone asked to set a new password for your Fizz account. If it was you, continue here:\n\n` +
+      `${appUrl()}/reset-password?token=${token}\n\n` +
+      `The link expires in an hour. If you didn't ask for this, you can ignore this email.`,
+  });
+}
+
+// Sent instead of a second account when someone signs up with a taken email
+async function sendAccountExistsMail(user: User) {
+  await getMailTransport().send({
+    to: user.email!,
+    subject: "You already have a Fizz account",
+    text: `Someone tried to create a Fizz account with this email address, which already has one. ` +
+      `If it was you, sign in instead, or use "Forgot password" on the sign-in page:\n\n${appUrl()}\n\n` +
+      `If it wasn't you, you can ignore this email.`,
+  });
+}
+
+const emailSchema = z.string().trim().toLowerCase().email().max(254);
+const passwordSchema = z.string().min(8, "Use at least 8 characters").max(200);
+
+const registerSchema = z.object({
+  email: emailSchema,
+  password: passwordSchema,
+  firstName: z.string().trim().min(1).max(100).optional(),
+  lastName: z.string().trim().min(1).max(100).optional(),
+});
+
+const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1).max(200),
+});
+
+const emailOnlySchema = z.object({ email: emailSchema });
+const tokenSchema = z.object({ token: z.string().min(1).max(200) });
+const resetSchema = z.object({ token: z.string().min(1).max(200), password: passwordSchema });
+
+// Runs the local strategy against req.body, resolving with the signed-in user
+function authenticateLocal(req: Request, res: Response): Promise<SessionUser> {
+  return new Promise((resolve, reject) => {
+    passport.authenticate("local", (error: unknown, user: SessionUser | false) => {
+      if (error) return reject(error);
+      if (!user) return reject(new UnauthorizedError("Invalid email or password"));
+      resolve(user);
+    })(req, res, reject);
+  });
+}
+
+/**
+ * LocalAuthProvider: email and password accounts. Sign-up mails a
+ * verification link and signing in needs a confirmed email. Password resets
+ * go through mailed single-use links, which also let OIDC-only accounts add
+ * a password. Routes live under /api/auth/local.
+ */
+export class LocalAuthProvider implements AuthProvider {
+  readonly name = "local";
+  readonly label = "Email and password";
+
+  setup(app: Express) {
+    // Fail at startup, not on the first sign-up, when mail isn't configured
+    getMailTransport();
+
+    passport.use(new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email.trim());
+        if (!user?.passwordHash) {
+          decoyHash ??= hashPassword(randomBytes(16).toString("hex"));
+          await verifyPassword(password, await decoyHash);
+          return done(null, false);
+        }
+        if (!await verifyPassword(password, user.passwordHash)) return done(null, false);
+        if (!user.emailVerifiedAt) {
+          return done(new ForbiddenError("Confirm your email address before signing in", "email_unverified"));
+        }
+        done(null, { id: user.id, provider: "local" });
+      } catch (error) {
+        done(error);
+      }
+    }));
+
+    app.use("/api/auth/local", this.router());
+  }
+
+  private router() {
+    const api = new ApiRouter("/api/auth/local", "Auth", "none");
+
+    // Always 202, so the response doesn't reveal which emails have accounts:
+    // the owner of a taken email gets mail about it instead. The password is
+    // hashed either way to keep the timing the same. Signing up again before
+    // confirming replaces the earlier sign-up, so whoever registered the
+    // address first can't keep a password on it.
+    api.post("/register", {
+      summary: "Create an email and password account",
+      body: registerSchema,
+      responses: { 202: mailSentSchema },
+    }, async (req, res, { body }) => {
+      const { email, password, firstName, lastName } = body;
+      const passwordHash = await hashPassword(password);
+      const existing = await storage.getUserByEmail(email);
+
+      const restarted = existing?.passwordHash && !existing.emailVerifiedAt
+        ? await storage.restartSignUp(existing.id, { passwordHash, firstName, lastName })
+        : undefined;
+
+      if (restarted) {
+        await applyProfile(restarted, {});
+        await sendVerificationMail(restarted);
+      } else if (existing) {
+        await sendAccountExistsMail(existing);
+      } else {
+        const user = await storage.createUser({ email, firstName, lastName, passwordHash });
+        await applyProfile(user, {});
+        await sendVerificationMail(user);
+      }
+      res.status(202).json({ sent: true });
+    });
+
+    api.post("/login", {
+      summary: "Sign in with email and password",
+      body: loginSchema,
+      responses: { 200: signedInSchema },
+    }, async (req, res, { body }) => {
+      req.body = body;
+      const user = await authenticateLocal(req, res);
+      await logIn(req, user);
+      res.json({ id: user.id });
+    });
+
+    // The mailed link proves the address; confirming also signs the user in
+    api.post("/verify-email", {
+      summary: "Confirm an email address",
+      body: tokenSchema,
+      responses: { 200: signedInSchema.extend({ verified: z.literal(true) }) },
+    }, async (req, res, { body }) => {
+      const token = await consumeToken(body.token, "verify_email");
+      await storage.markEmailVerified(token.userId);
+      await logIn(req, { id: token.userId, provider: this.name });
+      res.json({ id: token.userId, verified: true });
+    });
+
+    // Always 202, so the response doesn't reveal which emails have accounts
+    api.post("/verify-email/resend", {
+      summary: "Resend the confirmation email",
+      body: emailOnlySchema,
+      responses: { 202: mailSentSchema },
+    }, async (req, res, { body }) => {
+      const user = await storage.getUserByEmail(body.email);
+      if (user?.passwordHash && !user.emailVerifiedAt) await sendVerificationMail(user);
+      res.status(202).json({ sent: true });
+    });
+
+    api.post("/password/forgot", {
+      summary: "Email a password reset link",
+      body: emailOnlySchema,
+      responses: { 202: mailSentSchema },
+    }, async (req, res, { body }) => {
+      const user = await storage.getUserByEmail(body.email);
+      if (user) await sendPasswordResetMail(user);
+      res.status(202).json({ sent: true });
+    });
+
+    api.post("/password/reset", {
+      summary: "Set a new password from a reset link",
+      body: resetSchema,
+      responses: { 200: signedInSchema },
+    }, async (req, res, { body }) => {
+      const token = await consumeToken(body.token, "reset_password");
+      await storage.setUserPassword(token.userId, await hashPassword(body.password));
+      await storage.markEmailVerified(token.userId);
+      await logIn(req, { id: token.userId, provider: this.name });
+      res.json({ id: token.userId });
+    });
+
+    return api.router;
+  }
+}
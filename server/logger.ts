@@ -0,0 +1,148 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { getOptionalUserId } from "./auth";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+type LogFields = Record<string, unknown>;
+
+const levelRank: Record<LogLevel | "silent", number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+// Logging configuration
+//
+//   LOG_LEVEL    "debug", "info" (default), "warn", "error" or "silent"
+//   LOG_REDACT   extra comma-separated field names to redact, added to the defaults below
+
+// Field names (any depth, case-insensitive) whose values never reach the logs:
+// credentials, and user content such as messages, memory, emails and mail bodies
+const DEFAULT_REDACTED = [
+  "password", "token", "accessToken", "refreshToken", "idToken", "secret", "apiKey", "authorization", "cookie",
+  "email", "content", "memory", "systemPrompt", "prompt", "messages", "body",
+];
+
+const MAX_DEPTH = 6;
+
+// Per-request context, available to every log call made while handling the request
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+function configuredLevel(): LogLevel | "silent" {
+  const level = (process.env.LOG_LEVEL || "info").toLowerCase();
+  return level in levelRank ? (level as LogLevel | "silent") : "info";
+}
+
+function redactedFields(): Set<string> {
+  const extra = (process.env.LOG_REDACT || "").split(",").map(f => f.trim()).filter(Boolean);
+  return new Set([...DEFAULT_REDACTED, ...extra].map(f => f.toLowerCase()));
+}
+
+function serializeError(error: Error): LogFields {
+  return {
+    name: error.name,
+    message: error.message,
+    ...("code" in error && { code: error.code }),
+    stack: error.stack,
+    ...("cause" in error && error.cause !== undefined && { cause: error.cause }),
+  };
+}
+
+function sanitize(value: unknown, redacted: Set<string>, depth = 0): unknown {
+  if (value instanceof Error) return depth >= MAX_DEPTH ? value.message : sanitize(serializeError(value), redacted, depth + 1);
+  if (value === null || typeof value !== "object") return value;
+  if (value instanceof Date) return value.toISOString();
+  if (depth >= MAX_DEPTH) return "[Truncated]";
+  if (Array.isArray(value)) return value.map(item => sanitize(item, redacted, depth + 1));
+
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    redacted.has(key.toLowerCase()) ? "[REDACTED]" : sanitize(field, redacted, depth + 1),
+  ]));
+}
+
+/**
+ * Logger: one JSON object per line on stdout (warnings and errors on stderr),
+ * with the request id of the request being handled. Fields named in the
+ * redaction list are replaced at any depth before anything is written.
+ */
+export class Logger {
+  constructor(private readonly bindings: LogFields = {}) {}
+
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.write("error", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields) {
+    if (levelRank[level] < levelRank[configuredLevel()]) return;
+
+    const entry = sanitize({
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      requestId: currentRequestId(),
+      ...this.bindings,
+      ...fields,
+    }, redactedFields());
+
+    const line = JSON.stringify(entry) + "\n";
+    if (levelRank[level] >= levelRank.warn) process.stderr.write(line);
+    else process.stdout.write(line);
+  }
+}
+
+export const logger = new Logger();
+
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// The matched route pattern (/api/conversations/:id) rather than the raw path, so ids stay out
+function routeOf(req: Request): string | undefined {
+  return req.route?.path ? `${req.baseUrl}${req.route.path}` : undefined;
+}
+
+/**
+ * Assigns each request an id (a well-formed incoming X-Request-Id is kept),
+ * echoes it in the response, and logs one line per /api request when it
+ * finishes. Bodies are never logged.
+ */
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get("x-request-id");
+  const requestId = incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  const start = process.hrtime.bigint();
+  res.setHeader("X-Request-Id", requestId);
+
+  res.on("finish", () => {
+    if (!req.originalUrl.startsWith("/api")) return;
+
+    const status = res.statusCode;
+    const level: LogLevel = status >= 500 ? "error" : status >= 400 ? "warn" : "info";
+    logger[level]("request", {
+      requestId,
+      method: req.method,
+      route: routeOf(req),
+      path: req.originalUrl.split("?")[0],
+      status,
+      durationMs: Math.round(Number(process.hrtime.bigint() - start) / 1e5) / 10,
+      userId: getOptionalUserId(req),
+    });
+  });
+
+  requestContext.run({ requestId }, next);
+}
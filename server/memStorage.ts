@@ -0,0 +1,900 @@
+import { randomBytes, randomUUID } from "crypto";
+import {
+  DEFAULT_CONVERSATION_TITLE,
+  type Conversation,
+  type InsertConversation,
+  type Message,
+  type InsertMessage,
+  type User,
+  type UpsertUser,
+  type CustomPersona,
+  type InsertCustomPersona,
+  type ShareLink,
+  type InsertShareLink,
+  type UserPromptTemplate,
+  type InsertPromptTemplate,
+  type PromptTemplateVersion,
+  type Attachment,
+  type InsertAttachment,
+  type AuthIdentity,
+  type InsertAuthIdentity,
+  type AuthToken,
+  type AuthTokenPurpose,
+  type ApiKey,
+  type InsertApiKey,
+} from "../shared/schema";
+import { defaultLeaf, latestLeaf, pathTo } from "./messageTree";
+import { NotFoundError } from "./errors";
+import { configuredPriceId, paidPlans, priceCatalog, stripeModes, type PaidPlan } from "./priceCatalog";
+import type {
+  GalleryPersona,
+  IStorage,
+  PersonaGalleryQuery,
+  SearchCursor,
+  SearchFilters,
+  SearchHit,
+} from "./storage";
+
+// Rows of the stripe.* tables that the Stripe read methods return, in the
+// shape stripe-replit-sync stores them (snake_case, amounts in cents)
+export interface StripeFixtures {
+  products: any[];
+  prices: any[];
+  subscriptions: any[];
+}
+
+const fixtureAmounts: Record<PaidPlan, number> = { plus: 499, pro: 1499 };
+
+// An active monthly price for every configured catalog price, in both Stripe
+// modes, so the catalog validates and /api/billing/plans shows prices without Stripe
+function defaultStripeFixtures(): StripeFixtures {
+  const created = Math.floor(Date.now() / 1000);
+  return {
+    products: paidPlans.map(plan => ({ id: `prod_${plan}`, name: priceCatalog[plan].name, active: true, created })),
+    prices: paidPlans.flatMap(plan => stripeModes.flatMap(mode => configuredPriceId(plan, mode) ?? []).map(id => ({
+      id,
+      product: `prod_${plan}`,
+      active: true,
+      currency: "usd",
+      unit_amount: fixtureAmounts[plan],
+      type: "recurring",
+      recurring: { interval: "month", interval_count: 1 },
+      created,
+    }))),
+    subscriptions: [],
+  };
+}
+
+// Like a column default: values left undefined in an insert fall back to the default
+function withDefaults<T extends object>(defaults: T, values: object): T {
+  const row: any = { ...defaults };
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) row[key] = value;
+  }
+  return row;
+}
+
+// Rows are copied on the way in and out, as a database would, so callers
+// can't change stored state by mutating what they were given
+function copy<T>(row: T): T {
+  return structuredClone(row);
+}
+
+function copyAll<T>(rows: T[]): T[] {
+  return rows.map(copy);
+}
+
+function newest<T extends { createdAt: Date | null }>(a: T, b: T): number {
+  return (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+}
+
+function oldest<T extends { createdAt: Date | null }>(a: T, b: T): number {
+  return newest(b, a);
+}
+
+// Search cursors carry Postgres timestamp text; this is the same format
+function timestampText(date: Date): string {
+  return `${date.toISOString().slice(0, 23)}000`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function searchTerms(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []));
+}
+
+// Rough stand-in for ts_rank: the share of the text's words that match
+function rankText(text: string, terms: string[]): number | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (!terms.every(term => words.some(word => word.startsWith(term)))) return null;
+  const matches = words.filter(word => terms.some(term => word.startsWith(term))).length;
+  return matches / words.length;
+}
+
+// Up to 30 words around the first match, escaped, with matches in <mark> (like ts_headline)
+function headline(text: string, terms: string[]): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const first = Math.max(words.findIndex(word => terms.some(term => word.toLowerCase().includes(term))), 0);
+  const start = words.length > 30 ? Math.max(Math.min(first - 10, words.length - 30), 0) : 0;
+  const pattern = new RegExp(`(${terms.join("|")})`, "giu");
+  return escapeHtml(words.slice(start, start + 30).join(" ")).replace(pattern, "<mark>$1</mark>");
+}
+
+/**
+ * MemStorage: the whole IStorage contract in process memory, for offline
+ * development and tests (STORAGE=memory). Nothing is persisted and nothing is
+ * shared between processes. Foreign-key cascades, unique constraints and
+ * defaults are reproduced by hand; full-text search is approximated with
+ * prefix matching on words, without stemming.
+ */
+export class MemStorage implements IStorage {
+  private readonly users = new Map<string, User>();
+  private readonly conversations = new Map<string, Conversation>();
+  private readonly messages = new Map<string, Message>();
+  private readonly customPersonas = new Map<string, CustomPersona>();
+  private readonly attachments = new Map<string, Attachment>();
+  private readonly shareLinks = new Map<string, ShareLink>();
+  private readonly promptTemplates = new Map<string, UserPromptTemplate>();
+  private readonly promptTemplateVersions: PromptTemplateVersion[] = [];
+  // Keyed by "<userId>:<day>"
+  private readonly usage = new Map<string, number>();
+  private readonly rateLimits = new Map<string, { windowStart: number; expiresAt: number; count: number }>();
+  private readonly authIdentities = new Map<string, AuthIdentity>();
+  private readonly authTokens = new Map<string, AuthToken>();
+  private readonly apiKeys = new Map<string, ApiKey>();
+  private readonly stripe: StripeFixtures;
+
+  constructor(stripe: Partial<StripeFixtures> = {}) {
+    this.stripe = { ...defaultStripeFixtures(), ...stripe };
+  }
+
+  // Applies changes to a stored row and returns a copy, or undefined when there is no such row
+  private update<T>(rows: Map<string, T>, id: string, changes: Partial<T>): T | undefined {
+    const row = rows.get(id);
+    if (!row) return undefined;
+    Object.assign(row as object, changes);
+    return copy(row);
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && copy(user);
+  }
+
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find(u => u.stripeCustomerId === customerId);
+    return user && copy(user);
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    if (userData.id && this.users.has(userData.id)) {
+      const { email, firstName, lastName, profileImageUrl } = userData;
+      return this.update(this.users, userData.id, withDefaults<Partial<User>>({ updatedAt: new Date() }, {
+        email,
+        firstName,
+        lastName,
+        profileImageUrl,
+      }))!;
+    }
+    return this.createUser(userData);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find(u => u.email?.toLowerCase() === email.toLowerCase());
+    return user && copy(user);
+  }
+
+  async createUser(userData: UpsertUser): Promise<User> {
+    const id = userData.id ?? randomUUID();
+    if (this.users.has(id)) throw new Error(`User ${id} already exists`);
+    if (userData.email && Array.from(this.users.values()).some(u => u.email === userData.email)) {
+      throw new Error(`A user with email ${userData.email} already exists`);
+    }
+
+    const now = new Date();
+    const user = withDefaults<User>({
+      id,
+      email: null,
+      firstName: null,
+      lastName: null,
+      profileImageUrl: null,
+      plan: "free",
+      memory: [],
+      preferences: {},
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      passwordHash: null,
+      emailVerifiedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    }, { ...userData, id });
+    this.users.set(id, copy(user));
+    return user;
+  }
+
+  async setUserPassword(userId: string, passwordHash: string): Promise<void> {
+    this.update(this.users, userId, { passwordHash, updatedAt: new Date() });
+  }
+
+  async markEmailVerified(userId: string): Promise<void> {
+    if (this.users.get(userId)?.emailVerifiedAt === null) {
+      this.update(this.users, userId, { emailVerifiedAt: new Date(), updatedAt: new Date() });
+    }
+  }
+
+  async restartSignUp(userId: string, signUp: { passwordHash: string; firstName?: string; lastName?: string }): Promise<User | undefined> {
+    if (this.users.get(userId)?.emailVerifiedAt !== null) return undefined;
+
+    for (const [hash, token] of Array.from(this.authTokens)) {
+      if (token.userId === userId && token.purpose === "verify_email") this.authTokens.delete(hash);
+    }
+    return this.update(this.users, userId, {
+      passwordHash: signUp.passwordHash,
+      firstName: signUp.firstName ?? null,
+      lastName: signUp.lastName ?? null,
+      memory: [],
+      updatedAt: new Date(),
+    });
+  }
+
+  async updateUserStripeInfo(userId: string, stripeInfo: { stripeCustomerId?: string; stripeSubscriptionId?: string | null }): Promise<User> {
+    return this.update(this.users, userId, withDefaults<Partial<User>>({ updatedAt: new Date() }, stripeInfo))!;
+  }
+
+  async updateUserPlan(userId: string, plan: string): Promise<User> {
+    return this.update(this.users, userId, { plan, updatedAt: new Date() })!;
+  }
+
+  async updateUserMemory(userId: string, memory: string[]): Promise<User> {
+    return this.update(this.users, userId, { memory: [...memory], updatedAt: new Date() })!;
+  }
+
+  async updateUserPreferences(userId: string, preferences: Record<string, any>): Promise<User> {
+    return this.update(this.users, userId, { preferences: copy(preferences), updatedAt: new Date() })!;
+  }
+
+  // Conversations
+  async getConversations(userId: string): Promise<Conversation[]> {
+    return copyAll(Array.from(this.conversations.values()).filter(c => c.userId === userId).sort(newest));
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    return conversation && copy(conversation);
+  }
+
+  async createConversation(
+    insertConversation: InsertConversation,
+    userId: string | null,
+    createdAt?: Date
+  ): Promise<Conversation> {
+    const conversation = withDefaults<Conversation>({
+      id: randomUUID(),
+      userId,
+      title: DEFAULT_CONVERSATION_TITLE,
+      titleLocked: false,
+      persona: "general",
+      activeMessageId: null,
+      summary: null,
+      summaryThroughId: null,
+      createdAt: createdAt ?? new Date(),
+    }, insertConversation);
+    this.conversations.set(conversation.id, copy(conversation));
+    return conversation;
+  }
+
+  async importConversation(
+    insertConversation: InsertConversation,
+    userId: string,
+    createdAt: Date | undefined,
+    importedMessages: Omit<InsertMessage, "conversationId" | "parentId">[],
+  ): Promise<Conversation> {
+    const conversation = await this.createConversation(insertConversation, userId, createdAt);
+    // Nothing below can fail partway; each message continues the active branch
+    for (const message of importedMessages) {
+      await this.createMessage({ ...message, conversationId: conversation.id });
+    }
+    return copy(this.conversations.get(conversation.id)!);
+  }
+
+  async updateConversationTitle(id: string, title: string): Promise<void> {
+    this.update(this.conversations, id, { title, titleLocked: true });
+  }
+
+  async setConversationTitleLocked(id: string, locked: boolean): Promise<void> {
+    this.update(this.conversations, id, { titleLocked: locked });
+  }
+
+  async setGeneratedTitle(id: string, title: string): Promise<boolean> {
+    const conversation = this.conversations.get(id);
+    if (!conversation || conversation.titleLocked) return false;
+    conversation.title = title;
+    return true;
+  }
+
+  async updateConversationSummary(id: string, summary: string | null, throughId: string | null): Promise<void> {
+    this.update(this.conversations, id, { summary, summaryThroughId: throughId });
+  }
+
+  async deleteConversation(id: string, userId: string): Promise<void> {
+    if (this.conversations.get(id)?.userId !== userId) return;
+
+    this.conversations.delete(id);
+    for (const message of Array.from(this.messages.values())) {
+      if (message.conversationId === id) this.messages.delete(message.id);
+    }
+    for (const link of Array.from(this.shareLinks.values())) {
+      if (link.conversationId === id) this.shareLinks.delete(link.id);
+    }
+  }
+
+  // Messages
+  async getMessages(conversationId: string): Promise<Message[]> {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) return [];
+
+    const allMessages = await this.getAllMessages(conversationId);
+    return pathTo(allMessages, conversation.activeMessageId ?? defaultLeaf(allMessages));
+  }
+
+  async getAllMessages(conversationId: string): Promise<Message[]> {
+    return copyAll(Array.from(this.messages.values()).filter(m => m.conversationId === conversationId).sort(oldest));
+  }
+
+  async getMessagePath(messageId: string): Promise<Message[]> {
+    const message = this.messages.get(messageId);
+    if (!message) return [];
+
+    return pathTo(await this.getAllMessages(message.conversationId), messageId);
+  }
+
+  async getSiblings(messageId: string): Promise<Message[]> {
+    const message = this.messages.get(messageId);
+    if (!message) return [];
+
+    const all = await this.getAllMessages(message.conversationId);
+    return all.filter(m => m.parentId === message.parentId);
+  }
+
+  async setActiveBranch(conversationId: string, messageId: string): Promise<Message[]> {
+    const allMessages = await this.getAllMessages(conversationId);
+    if (!allMessages.some(m => m.id === messageId)) return [];
+
+    const leafId = latestLeaf(allMessages, messageId);
+    this.update(this.conversations, conversationId, { activeMessageId: leafId });
+    return pathTo(allMessages, leafId);
+  }
+
+  async getMessage(id: string): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    return message && copy(message);
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    if (!this.conversations.has(insertMessage.conversationId)) {
+      throw new Error(`Conversation ${insertMessage.conversationId} does not exist`);
+    }
+
+    let parentId = insertMessage.parentId;
+    if (parentId === undefined) {
+      parentId = this.conversations.get(insertMessage.conversationId)?.activeMessageId ?? null;
+    }
+
+    const message = withDefaults<Message>({
+      id: randomUUID(),
+      conversationId: insertMessage.conversationId,
+      parentId: null,
+      role: insertMessage.role,
+      content: insertMessage.content,
+      imageUrl: null,
+      attachmentIds: [],
+      isPinned: "false",
+      reactions: [],
+      status: "complete",
+      editedAt: null,
+      createdAt: new Date(),
+    }, { ...insertMessage, parentId });
+    this.messages.set(message.id, copy(message));
+
+    this.update(this.conversations, insertMessage.conversationId, { activeMessageId: message.id });
+    return message;
+  }
+
+  async updateMessage(id: string, updates: Partial<Message>): Promise<Message> {
+    return this.update(this.messages, id, { ...copy(updates), editedAt: new Date() })!;
+  }
+
+  // Removes the messages and everything below them, clearing conversation pointers to them
+  private removeMessages(ids: string[]) {
+    const removed = new Set<string>();
+    const pending = [...ids];
+    while (pending.length) {
+      const id = pending.pop()!;
+      if (removed.has(id) || !this.messages.has(id)) continue;
+      removed.add(id);
+      this.messages.delete(id);
+      for (const message of this.messages.values()) {
+        if (message.parentId === id) pending.push(message.id);
+      }
+    }
+
+    for (const conversation of this.conversations.values()) {
+      if (conversation.activeMessageId && removed.has(conversation.activeMessageId)) conversation.activeMessageId = null;
+      if (conversation.summaryThroughId && removed.has(conversation.summaryThroughId)) conversation.summaryThroughId = null;
+    }
+  }
+
+  async deleteMessage(id: string): Promise<void> {
+    this.removeMessages([id]);
+  }
+
+  async deleteMessagesAfter(messageId: string, conversationId: string): Promise<void> {
+    const message = this.messages.get(messageId);
+    if (!message || message.conversationId !== conversationId) return;
+
+    const children = Array.from(this.messages.values()).filter(m => m.parentId === messageId);
+    this.removeMessages(children.map(m => m.id));
+    this.update(this.conversations, conversationId, { activeMessageId: messageId });
+  }
+
+  async pinMessage(id: string, isPinned: boolean): Promise<Message> {
+    return this.update(this.messages, id, { isPinned: isPinned ? "true" : "false" })!;
+  }
+
+  async addReaction(messageId: string, reaction: { emoji: string; userId: string }): Promise<Message> {
+    const message = this.messages.get(messageId);
+    if (!message) throw new NotFoundError("Message");
+
+    const existing = message.reactions.findIndex(r => r.emoji === reaction.emoji && r.userId === reaction.userId);
+    const reactions = existing >= 0
+      ? message.reactions.filter((_, i) => i !== existing)
+      : [...message.reactions, { ...reaction }];
+    return this.update(this.messages, messageId, { reactions })!;
+  }
+
+  // Custom Personas
+  async getCustomPersonas(userId: string): Promise<CustomPersona[]> {
+    return copyAll(Array.from(this.customPersonas.values()).filter(p => p.userId === userId).sort(newest));
+  }
+
+  async getCustomPersona(id: string, userId: string): Promise<CustomPersona | undefined> {
+    const persona = this.customPersonas.get(id);
+    return persona?.userId === userId ? copy(persona) : undefined;
+  }
+
+  async getCustomPersonaById(id: string): Promise<CustomPersona | undefined> {
+    const persona = this.customPersonas.get(id);
+    return persona && copy(persona);
+  }
+
+  async createCustomPersona(insertPersona: InsertCustomPersona, userId: string, forkedFromId?: string): Promise<CustomPersona> {
+    const now = new Date();
+    const persona = withDefaults<CustomPersona>({
+      id: randomUUID(),
+      userId,
+      name: insertPersona.name,
+      description: null,
+      systemPrompt: insertPersona.systemPrompt,
+      avatar: null,
+      model: null,
+      visibility: "private",
+      forkedFromId: forkedFromId ?? null,
+      forkCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    }, insertPersona);
+    this.customPersonas.set(persona.id, copy(persona));
+    return persona;
+  }
+
+  async updateCustomPersona(id: string, userId: string, updates: Partial<InsertCustomPersona>): Promise<CustomPersona> {
+    // Like the UPDATE it stands in for, a persona the user doesn't own yields no row
+    const owned = this.customPersonas.get(id)?.userId === userId;
+    const changes = withDefaults<Partial<CustomPersona>>({ updatedAt: new Date() }, updates);
+    return (owned ? this.update(this.customPersonas, id, changes) : undefined)!;
+  }
+
+  async deleteCustomPersona(id: string, userId: string): Promise<void> {
+    if (this.customPersonas.get(id)?.userId !== userId) return;
+
+    this.customPersonas.delete(id);
+    for (const persona of this.customPersonas.values()) {
+      if (persona.forkedFromId === id) persona.forkedFromId = null;
+    }
+  }
+
+  async incrementPersonaForkCount(id: string): Promise<void> {
+    const persona = this.customPersonas.get(id);
+    if (persona) persona.forkCount += 1;
+  }
+
+  async getPersonaGallery({ query, sort, limit, offset }: PersonaGalleryQuery): Promise<GalleryPersona[]> {
+    const needle = query?.toLowerCase();
+    const useCounts = new Map<string, number>();
+    for (const conversation of this.conversations.values()) {
+      useCounts.set(conversation.persona, (useCounts.get(conversation.persona) ?? 0) + 1);
+    }
+
+    return Array.from(this.customPersonas.values())
+      .filter(p => p.visibility === "public")
+      .filter(p => !needle || p.name.toLowerCase().includes(needle) || Boolean(p.description?.toLowerCase().includes(needle)))
+      .map(p => ({
+        ...copy(p),
+        authorName: this.users.get(p.userId)?.firstName ?? null,
+        useCount: useCounts.get(p.id) ?? 0,
+      }))
+      .sort((a, b) => (sort === "popular" ? (b.forkCount + b.useCount) - (a.forkCount + a.useCount) : 0) || newest(a, b))
+      .slice(offset, offset + limit);
+  }
+
+  // Attachments
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const attachment = withDefaults<Attachment>({
+      ...insertAttachment,
+      id: randomUUID(),
+      thumbnailKey: null,
+      width: null,
+      height: null,
+      createdAt: new Date(),
+    }, {});
+    this.attachments.set(attachment.id, copy(attachment));
+    return attachment;
+  }
+
+  async getAttachment(id: string): Promise<Attachment | undefined> {
+    const attachment = this.attachments.get(id);
+    return attachment && copy(attachment);
+  }
+
+  async getAttachments(ids: string[]): Promise<Attachment[]> {
+    return copyAll(ids.flatMap(id => this.attachments.get(id) ?? []));
+  }
+
+  async deleteAttachment(id: string, userId: string): Promise<void> {
+    if (this.attachments.get(id)?.userId === userId) this.attachments.delete(id);
+  }
+
+  // Share links
+  async getShareLinks(conversationId: string): Promise<ShareLink[]> {
+    return copyAll(Array.from(this.shareLinks.values()).filter(l => l.conversationId === conversationId).sort(newest));
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    const link = this.shareLinks.get(id);
+    return link && copy(link);
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const link = Array.from(this.shareLinks.values()).find(l => l.token === token);
+    return link && copy(link);
+  }
+
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    const created: ShareLink = {
+      ...copy(link),
+      id: randomUUID(),
+      // 144 random bits, URL-safe
+      token: randomBytes(18).toString("base64url"),
+      viewCount: 0,
+      expiresAt: link.expiresAt ?? null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.shareLinks.set(created.id, copy(created));
+    return created;
+  }
+
+  async revokeShareLink(id: string): Promise<ShareLink> {
+    return this.update(this.shareLinks, id, { revokedAt: this.shareLinks.get(id)?.revokedAt ?? new Date() })!;
+  }
+
+  async recordShareLinkView(id: string): Promise<ShareLink> {
+    return this.update(this.shareLinks, id, { viewCount: (this.shareLinks.get(id)?.viewCount ?? 0) + 1 })!;
+  }
+
+  // Prompt templates
+  async getPromptTemplates(userId: string): Promise<UserPromptTemplate[]> {
+    return copyAll(Array.from(this.promptTemplates.values())
+      .filter(t => t.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()));
+  }
+
+  async getPublicPromptTemplates(limit: number, offset: number): Promise<UserPromptTemplate[]> {
+    return copyAll(Array.from(this.promptTemplates.values())
+      .filter(t => t.visibility === "public")
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(offset, offset + limit));
+  }
+
+  async getPromptTemplate(id: string): Promise<UserPromptTemplate | undefined> {
+    const template = this.promptTemplates.get(id);
+    return template && copy(template);
+  }
+
+  private recordVersion(template: UserPromptTemplate) {
+    this.promptTemplateVersions.push({
+      templateId: template.id,
+      version: template.version,
+      template: template.template,
+      variables: copy(template.variables),
+      createdAt: new Date(),
+    });
+  }
+
+  async createPromptTemplate(insertTemplate: InsertPromptTemplate, userId: string): Promise<UserPromptTemplate> {
+    const now = new Date();
+    const template = withDefaults<UserPromptTemplate>({
+      id: randomUUID(),
+      userId,
+      title: insertTemplate.title,
+      description: "",
+      category: "custom",
+      template: insertTemplate.template,
+      variables: [],
+      version: 1,
+      visibility: "private",
+      createdAt: now,
+      updatedAt: now,
+    }, copy(insertTemplate));
+    this.promptTemplates.set(template.id, copy(template));
+    this.recordVersion(template);
+    return template;
+  }
+
+  async updatePromptTemplate(
+    id: string,
+    userId: string,
+    updates: Partial<InsertPromptTemplate>
+  ): Promise<UserPromptTemplate | undefined> {
+    const current = this.promptTemplates.get(id);
+    if (!current || current.userId !== userId) return undefined;
+
+    const contentChanged =
+      (updates.template !== undefined && updates.template !== current.template) ||
+      (updates.variables !== undefined && JSON.stringify(updates.variables) !== JSON.stringify(current.variables));
+
+    const template = this.update(this.promptTemplates, id, withDefaults<Partial<UserPromptTemplate>>({
+      version: contentChanged ? current.version + 1 : current.version,
+      updatedAt: new Date(),
+    }, copy(updates)))!;
+
+    if (contentChanged) this.recordVersion(template);
+    return template;
+  }
+
+  async deletePromptTemplate(id: string, userId: string): Promise<void> {
+    if (this.promptTemplates.get(id)?.userId !== userId) return;
+
+    this.promptTemplates.delete(id);
+    const versions = this.promptTemplateVersions.filter(v => v.templateId !== id);
+    this.promptTemplateVersions.splice(0, this.promptTemplateVersions.length, ...versions);
+  }
+
+  async getPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+    return copyAll(this.promptTemplateVersions
+      .filter(v => v.templateId === templateId)
+      .sort((a, b) => b.version - a.version));
+  }
+
+  async getPromptTemplateVersion(templateId: string, version: number): Promise<PromptTemplateVersion | undefined> {
+    const row = this.promptTemplateVersions.find(v => v.templateId === templateId && v.version === version);
+    return row && copy(row);
+  }
+
+  // Search
+  async search(
+    userId: string,
+    query: string,
+    filters: SearchFilters,
+    cursor: SearchCursor | null,
+    limit: number
+  ): Promise<SearchHit[]> {
+    const terms = searchTerms(query);
+    if (terms.length === 0) return [];
+
+    const inRange = (date: Date) =>
+      (!filters.from || date >= filters.from) && (!filters.before || date < filters.before);
+    const owned = Array.from(this.conversations.values())
+      .filter(c => c.userId === userId && (!filters.persona || c.persona === filters.persona));
+    const hits: SearchHit[] = [];
+
+    for (const conversation of owned) {
+      for (const message of this.messages.values()) {
+        if (message.conversationId !== conversation.id || !inRange(message.createdAt)) continue;
+        if (filters.role && message.role !== filters.role) continue;
+        if (filters.pinned !== undefined && (message.isPinned === "true") !== filters.pinned) continue;
+
+        const rank = rankText(message.content, terms);
+        if (rank === null) continue;
+        hits.push({
+          type: "message",
+          id: message.id,
+          conversationId: conversation.id,
+          conversationTitle: conversation.title,
+          persona: conversation.persona,
+          role: message.role,
+          isPinned: message.isPinned === "true",
+          snippet: headline(message.content, terms),
+          rank,
+          createdAt: new Date(message.createdAt),
+          cursor: { rank, createdAt: timestampText(message.createdAt), id: message.id },
+        });
+      }
+
+      // Titles have no role or pin, so those filters rule title hits out
+      const rank = rankText(conversation.title, terms);
+      if (rank === null || filters.role || filters.pinned !== undefined || !inRange(conversation.createdAt)) continue;
+      hits.push({
+        type: "conversation",
+        id: conversation.id,
+        conversationId: conversation.id,
+        conversationTitle: conversation.title,
+        persona: conversation.persona,
+        role: null,
+        isPinned: null,
+        snippet: headline(conversation.title, terms),
+        rank,
+        createdAt: new Date(conversation.createdAt),
+        cursor: { rank, createdAt: timestampText(conversation.createdAt), id: conversation.id },
+      });
+    }
+
+    // Same order as Postgres: (rank, createdAt, id), compared as a row
+    const compare = (a: SearchCursor, b: SearchCursor) =>
+      a.rank !== b.rank ? (a.rank < b.rank ? -1 : 1)
+        : a.createdAt !== b.createdAt ? (a.createdAt < b.createdAt ? -1 : 1)
+        : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    return hits
+      .filter(hit => !cursor || compare(hit.cursor, cursor) < 0)
+      .sort((a, b) => compare(b.cursor, a.cursor))
+      .slice(0, limit);
+  }
+
+  // Usage
+  async getDailyUsage(userId: string, day: string): Promise<number> {
+    return this.usage.get(`${userId}:${day}`) ?? 0;
+  }
+
+  async tryIncrementDailyUsage(userId: string, day: string, limit: number | null): Promise<boolean> {
+    const key = `${userId}:${day}`;
+    const used = this.usage.get(key) ?? 0;
+    if (limit !== null && used >= limit) return false;
+
+    this.usage.set(key, used + 1);
+    return true;
+  }
+
+  // Rate limits
+  async hitRateLimit(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }> {
+    const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+    const current = this.rateLimits.get(key);
+    const row = current?.windowStart === windowStart
+      ? { ...current, count: current.count + 1 }
+      : { windowStart, expiresAt: windowStart + windowMs, count: 1 };
+
+    this.rateLimits.set(key, row);
+    return { count: row.count, resetAt: new Date(row.expiresAt) };
+  }
+
+  async pruneRateLimits(): Promise<void> {
+    const now = Date.now();
+    for (const [key, row] of Array.from(this.rateLimits)) {
+      if (row.expiresAt < now) this.rateLimits.delete(key);
+    }
+  }
+
+  // Auth identities and tokens
+  async getAuthIdentity(provider: string, subject: string): Promise<AuthIdentity | undefined> {
+    const identity = Array.from(this.authIdentities.values()).find(i => i.provider === provider && i.subject === subject);
+    return identity && copy(identity);
+  }
+
+  async getAuthIdentities(userId: string): Promise<AuthIdentity[]> {
+    return copyAll(Array.from(this.authIdentities.values()).filter(i => i.userId === userId).sort(oldest));
+  }
+
+  async createAuthIdentity(identity: InsertAuthIdentity): Promise<AuthIdentity> {
+    if (await this.getAuthIdentity(identity.provider, identity.subject)) {
+      throw new Error(`${identity.provider} identity ${identity.subject} is already linked`);
+    }
+
+    const created = withDefaults<AuthIdentity>({
+      id: randomUUID(),
+      userId: identity.userId,
+      provider: identity.provider,
+      subject: identity.subject,
+      email: null,
+      createdAt: new Date(),
+    }, identity);
+    this.authIdentities.set(created.id, copy(created));
+    return created;
+  }
+
+  async createAuthToken(token: { tokenHash: string; userId: string; purpose: AuthTokenPurpose; expiresAt: Date }): Promise<void> {
+    this.authTokens.set(token.tokenHash, { ...copy(token), createdAt: new Date() });
+  }
+
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    const token = this.authTokens.get(tokenHash);
+    if (!token || token.purpose !== purpose || token.expiresAt <= new Date()) return undefined;
+
+    for (const [hash, other] of Array.from(this.authTokens)) {
+      if (other.userId === token.userId && other.purpose === purpose) this.authTokens.delete(hash);
+    }
+    return token;
+  }
+
+  // API keys
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    return copyAll(Array.from(this.apiKeys.values()).filter(k => k.userId === userId && !k.revokedAt).sort(newest));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const key = Array.from(this.apiKeys.values()).find(k => k.keyHash === keyHash);
+    return key && copy(key);
+  }
+
+  async createApiKey(key: InsertApiKey, userId: string, prefix: string, keyHash: string): Promise<ApiKey> {
+    if (await this.getApiKeyByHash(keyHash)) throw new Error("An API key with this hash already exists");
+
+    const created: ApiKey = {
+      id: randomUUID(),
+      userId,
+      name: key.name,
+      prefix,
+      keyHash,
+      scopes: [...key.scopes],
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.apiKeys.set(created.id, copy(created));
+    return created;
+  }
+
+  async updateApiKey(id: string, userId: string, updates: Partial<InsertApiKey>): Promise<ApiKey | undefined> {
+    const key = this.apiKeys.get(id);
+    if (!key || key.userId !== userId || key.revokedAt) return undefined;
+    return this.update(this.apiKeys, id, withDefaults<Partial<ApiKey>>({}, copy(updates)));
+  }
+
+  async revokeApiKey(id: string, userId: string): Promise<ApiKey | undefined> {
+    const key = this.apiKeys.get(id);
+    if (!key || key.userId !== userId || key.revokedAt) return undefined;
+    return this.update(this.apiKeys, id, { revokedAt: new Date() });
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    this.update(this.apiKeys, id, { lastUsedAt: new Date() });
+  }
+
+  // Stripe (seeded fixtures in place of the stripe.* schema)
+  async getProduct(productId: string): Promise<any> {
+    return copy(this.stripe.products.find(p => p.id === productId) ?? null);
+  }
+
+  async listProducts(active = true, limit = 20, offset = 0): Promise<any[]> {
+    return copyAll(this.stripe.products
+      .filter(p => p.active === active)
+      .sort((a, b) => b.created - a.created)
+      .slice(offset, offset + limit));
+  }
+
+  async getPrice(priceId: string): Promise<any> {
+    return copy(this.stripe.prices.find(p => p.id === priceId) ?? null);
+  }
+
+  async listPrices(active = true, limit = 20, offset = 0): Promise<any[]> {
+    return copyAll(this.stripe.prices
+      .filter(p => p.active === active)
+      .sort((a, b) => b.created - a.created)
+      .slice(offset, offset + limit));
+  }
+
+  async getSubscription(subscriptionId: string): Promise<any> {
+    return copy(this.stripe.subscriptions.find(s => s.id === subscriptionId) ?? null);
+  }
+}
@@ -0,0 +1,129 @@
+import type { User } from "../shared/schema";
+import { getEntitlements } from "../shared/plans";
+import { storage } from "./storage";
+import { logger } from "./logger";
+import type { ChatMessage, LLMProvider } from "./llm";
+
+// Memory is on unless the user turned it off in preferences
+export function isMemoryEnabled(user: User | undefined): boolean {
+  return user?.preferences?.memoryEnabled !== false;
+}
+
+export function memoryLimit(user: User): number {
+  return getEntitlements(user.plan).memoryEntries;
+}
+
+// Case, whitespace and trailing punctuation don't make a new fact
+function normalize(entry: string): string {
+  return entry.toLowerCase().replace(/\s+/g, " ").replace(/[.!?]+$/, "").trim();
+}
+
+export function hasEntry(memory: string[], entry: string): boolean {
+  const key = normalize(entry);
+  return memory.some(existing => normalize(existing) === key);
+}
+
+// Keeps the newest entries when over the plan's cap
+export function capMemory(memory: string[], limit: number): string[] {
+  return memory.length > limit ? memory.slice(memory.length - limit) : memory;
+}
+
+export function memoryPrompt(memory: string[]): string {
+  return "What you remember about the user from earlier conversations " +
+    "(use it when relevant, don't recite it):\n" +
+    memory.map(entry => `- ${entry}`).join("\n");
+}
+
+const EXTRACTION_PROMPT = `You maintain a long-term memory of durable facts about the user: name, preferences, ongoing projects, relationships, goals.
+You get the current memory as a numbered list and the latest exchange.
+Reply with JSON only, in this shape:
+{"add": ["new fact"], "update": [{"index": 0, "content": "corrected fact"}], "remove": [1]}
+- Only record facts the user stated or clearly implied about themselves, written in the first person ("I ...", "My ...").
+- Skip anything temporary, trivial or already in memory.
+- When the exchange contradicts an entry, update it instead of adding a new one; remove entries the user asked you to forget.
+- Reply {"add": [], "update": [], "remove": []} when nothing changes.`;
+
+interface MemoryChanges {
+  add: string[];
+  update: { index: number; content: string }[];
+  remove: number[];
+}
+
+function parseChanges(reply: string): MemoryChanges | null {
+  const json = reply.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json);
+    return {
+      add: Array.isArray(parsed.add) ? parsed.add.filter((e: unknown) => typeof e === "string") : [],
+      update: Array.isArray(parsed.update)
+        ? parsed.update.filter((u: any) => Number.isInteger(u?.index) && typeof u?.content === "string")
+        : [],
+      remove: Array.isArray(parsed.remove) ? parsed.remove.filter(Number.isInteger) : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function applyChanges(memory: string[], changes: MemoryChanges, limit: number): string[] {
+  const updated = [...memory];
+  for (const { index, content } of changes.update) {
+    if (index >= 0 && index < updated.length && content.trim()) updated[index] = content.trim();
+  }
+
+  const removed = new Set(changes.remove);
+  let next = updated.filter((_, index) => !removed.has(index));
+
+  for (const entry of changes.add) {
+    const trimmed = entry.trim();
+    if (trimmed && !hasEntry(next, trimmed)) next.push(trimmed);
+  }
+
+  // Updates can turn two entries into the same fact
+  next = next.filter((entry, index) => next.findIndex(e => normalize(e) === normalize(entry)) === index);
+  return capMemory(next, limit);
+}
+
+/**
+ * Asks the provider which durable facts the latest exchange adds, corrects or
+ * retracts, and saves the merged memory. Returns the new memory, or null when
+ * memory is off or nothing changed.
+ */
+export async function extractMemory(userId: string, provider: LLMProvider, exchange: ChatMessage[]): Promise<string[] | null> {
+  const user = await storage.getUser(userId);
+  if (!user || !isMemoryEnabled(user)) return null;
+
+  const memory = user.memory ?? [];
+  const numbered = memory.length
+    ? memory.map((entry, index) => `${index}. ${entry}`).join("\n")
+    : "(empty)";
+  const transcript = exchange.map(m => `${m.role}: ${m.content}`).join("\n");
+
+  const result = await provider.chat({
+    messages: [
+      { role: "system", content: EXTRACTION_PROMPT },
+      { role: "user", content: `Current memory:\n${numbered}\n\nLatest exchange:\n${transcript}` },
+    ],
+    temperature: 0,
+  });
+
+  const changes = parseChanges(result.content);
+  if (!changes) return null;
+
+  const next = applyChanges(memory, changes, memoryLimit(user));
+  if (next.length === memory.length && next.every((entry, i) => entry === memory[i])) return null;
+
+  await storage.updateUserMemory(userId, next);
+  return next;
+}
+
+// Runs extraction in the background after a reply; failures are only logged
+export function scheduleMemoryExtraction(userId: string, provider: LLMProvider, exchange: ChatMessage[]) {
+  setImmediate(() => {
+    extractMemory(userId, provider, exchange).catch(error => {
+      logger.error("Memory extraction failed", { userId, error });
+    });
+  });
+}
@@ -0,0 +1,125 @@
+import type { Request } from "express";
+import { z } from "zod";
+import type { User } from "../shared/schema";
+import { cheapestPlanWhere } from "../shared/plans";
+import { storage } from "./storage";
+import { isAuthenticated, getUserId } from "./auth";
+import { ConflictError, NotFoundError, PlanRequiredError } from "./errors";
+import { ApiRouter } from "./openapi";
+import { memorySchema } from "./apiSchemas";
+import { hasEntry, isMemoryEnabled, memoryLimit } from "./memory";
+
+const entrySchema = z.object({
+  content: z.string().trim().min(1).max(500),
+});
+
+const settingsSchema = z.object({
+  enabled: z.boolean(),
+});
+
+const indexParamsSchema = z.object({
+  index: z.string().regex(/^\d+$/, "Invalid memory index").transform(Number),
+});
+
+function memoryResponse(user: User) {
+  return {
+    enabled: isMemoryEnabled(user),
+    limit: memoryLimit(user),
+    entries: user.memory ?? [],
+  };
+}
+
+async function loadUser(req: Request): Promise<User> {
+  const user = await storage.getUser(getUserId(req));
+  if (!user) throw new NotFoundError("User");
+  return user;
+}
+
+// Entries are addressed by their position in users.memory
+export function createMemoryRouter() {
+  const api = new ApiRouter("/api/memory", "Memory");
+
+  api.use(isAuthenticated);
+
+  api.get("/", {
+    summary: "Get your memory",
+    responses: { 200: memorySchema },
+  }, async (req, res) => {
+    res.json(memoryResponse(await loadUser(req)));
+  });
+
+  api.post("/", {
+    summary: "Add a memory",
+    body: entrySchema,
+    responses: { 201: memorySchema },
+  }, async (req, res, { body }) => {
+    const user = await loadUser(req);
+
+    const memory = user.memory ?? [];
+    if (hasEntry(memory, body.content)) {
+      throw new ConflictError("Memory already contains this entry");
+    }
+    if (memory.length >= memoryLimit(user)) {
+      const requiredPlan = cheapestPlanWhere(e => e.memoryEntries > memory.length);
+      throw new PlanRequiredError("memory_entries", requiredPlan, `Your plan keeps up to ${memoryLimit(user)} memories`);
+    }
+
+    const updated = await storage.updateUserMemory(user.id, [...memory, body.content]);
+    res.status(201).json(memoryResponse(updated));
+  });
+
+  api.patch("/:index", {
+    summary: "Replace a memory",
+    params: indexParamsSchema,
+    body: entrySchema,
+    responses: { 200: memorySchema },
+  }, async (req, res, { params, body }) => {
+    const user = await loadUser(req);
+
+    const memory = [...(user.memory ?? [])];
+    if (params.index >= memory.length) throw new NotFoundError("Memory entry");
+
+    memory[params.index] = body.content;
+    const updated = await storage.updateUserMemory(user.id, memory);
+    res.json(memoryResponse(updated));
+  });
+
+  api.delete("/:index", {
+    summary: "Forget a memory",
+    params: indexParamsSchema,
+    responses: { 200: memorySchema },
+  }, async (req, res, { params }) => {
+    const user = await loadUser(req);
+
+    const memory = user.memory ?? [];
+    if (params.index >= memory.length) throw new NotFoundError("Memory entry");
+
+    const updated = await storage.updateUserMemory(user.id, memory.filter((_, i) => i !== params.index));
+    res.json(memoryResponse(updated));
+  });
+
+  api.delete("/", {
+    summary: "Forget everything",
+    responses: { 200: memorySchema },
+  }, async (req, res) => {
+    const updated = await storage.updateUserMemory(getUserId(req), []);
+    res.json(memoryResponse(updated));
+  });
+
+  // Turning memory off stops both extraction and prompt injection; entries are kept
+  api.put("/settings", {
+    summary: "Turn memory on or off",
+    body: settingsSchema,
+    responses: { 200: memorySchema },
+  }, async (req, res, { body }) => {
+    const user = await loadUser(req);
+
+    const updated = await storage.updateUserPreferences(user.id, {
+      ...(user.preferences ?? {}),
+      memoryEnabled: body.enabled,
+    });
+    res.json(memoryResponse(updated));
+  });
+
+  return api.router;
+}
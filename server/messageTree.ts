@@ -0,0 +1,40 @@
+import type { Message } from "../shared/schema";
+
+// Pure helpers over the messages of one conversation, which form a tree via parentId.
+
+// Root-to-leaf path ending at leafId, or [] if leafId isn't among the messages
+export function pathTo(messages: Message[], leafId: string | null): Message[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const path: Message[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+// Follows the newest child at every level below fromId down to a leaf
+export function latestLeaf(messages: Message[], fromId: string): string {
+  const children = new Map<string, Message[]>();
+  for (const message of messages) {
+    if (!message.parentId) continue;
+    const siblings = children.get(message.parentId) ?? [];
+    siblings.push(message);
+    children.set(message.parentId, siblings);
+  }
+
+  let leafId = fromId;
+  for (;;) {
+    const next = children.get(leafId);
+    if (!next?.length) return leafId;
+    leafId = next.reduce((newest, m) => (m.createdAt > newest.createdAt ? m : newest)).id;
+  }
+}
+
+// Leaf to show when the conversation has no active pointer (e.g. it was deleted)
+export function defaultLeaf(messages: Message[]): string | null {
+  if (messages.length === 0) return null;
+  return messages.reduce((newest, m) => (m.createdAt >= newest.createdAt ? m : newest)).id;
+}
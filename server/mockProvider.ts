@@ -0,0 +1,103 @@
+import type {
+  ChatMessage,
+  ChatRequest,
+  ChatResult,
+  LLMProvider,
+  ModerationResult,
+} from "./llm";
+
+export interface MockReply {
+  content: string;
+  // Token boundaries used when streaming; defaults to splitting on whitespace
+  tokens?: string[];
+  // Throw this message instead of replying (after streaming `tokens`, if any)
+  error?: string;
+}
+
+export const MOCK_MODEL = "mock-1";
+
+function tokenize(content: string): string[] {
+  return content.match(/\S+\s*|\s+/g) ?? [];
+}
+
+function abortError(): Error {
+  const error = new Error("Request was aborted.");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * MockProvider: deterministic, offline provider for tests and local dev.
+ * Replies come from a FIFO script when one is queued, otherwise they echo
+ * the last user message. Every request is recorded for assertions.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly requests: ChatRequest[] = [];
+  flaggedTerms: string[] = [];
+  // Delay between streamed tokens, useful for exercising client disconnects
+  tokenDelayMs = 0;
+
+  private replies: MockReply[] = [];
+
+  script(...replies: (string | MockReply)[]) {
+    for (const reply of replies) {
+      this.replies.push(typeof reply === "string" ? { content: reply } : reply);
+    }
+    return this;
+  }
+
+  reset() {
+    this.replies = [];
+    this.requests.length = 0;
+    this.flaggedTerms = [];
+    this.tokenDelayMs = 0;
+  }
+
+  private nextReply(request: ChatRequest): MockReply {
+    this.requests.push(request);
+    const scripted = this.replies.shift();
+    if (scripted) return scripted;
+
+    const lastUser = [...request.messages].reverse().find(m => m.role === "user");
+    return { content: `Mock reply to: ${lastUser?.content ?? ""}` };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    if (request.signal?.aborted) throw abortError();
+    const reply = this.nextReply(request);
+    if (reply.error) throw new Error(reply.error);
+    return { content: reply.content, model: request.model || MOCK_MODEL };
+  }
+
+  async stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    const reply = this.nextReply(request);
+    const tokens = reply.tokens ?? tokenize(reply.content);
+
+    let content = "";
+    for (const token of tokens) {
+      // Yield between tokens so aborts and disconnects can land mid-stream
+      await new Promise(resolve => setTimeout(resolve, this.tokenDelayMs));
+      if (request.signal?.aborted) throw abortError();
+      content += token;
+      onDelta(token);
+    }
+
+    if (reply.error) throw new Error(reply.error);
+    return { content, model: request.model || MOCK_MODEL };
+  }
+
+  async generateTitle(messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+    if (signal?.aborted) throw abortError();
+    const firstUser = messages.find(m => m.role === "user")?.content ?? "";
+    const words = firstUser.replace(/[^\p{L}\p{N}\s'-]/gu, " ").split(/\s+/).filter(Boolean).slice(0, 6);
+    if (words.length === 0) return "New chat";
+    return words.map(w => w[0].toUpperCase() + w.slice(1)).join(" ");
+  }
+
+  async moderate(input: string): Promise<ModerationResult> {
+    const lowered = input.toLowerCase();
+    const categories = this.flaggedTerms.filter(term => lowered.includes(term.toLowerCase()));
+    return { flagged: categories.length > 0, categories };
+  }
+}
@@ -0,0 +1,203 @@
+import * as client from "openid-client";
+import { Strategy, type AuthenticateOptions, type VerifyFunctionWithRequest } from "openid-client/passport";
+import passport from "passport";
+import type { Express, Request, Response } from "express";
+import {
+  appUrl,
+  findOrCreateUser,
+  getOptionalUserId,
+  type AuthProvider,
+  type SessionUser,
+} from "./auth";
+import { ApiRouter } from "./openapi";
+
+type Tokens = client.TokenEndpointResponse & client.TokenEndpointResponseHelpers;
+
+// Issuer metadata is re-discovered at most hourly
+const DISCOVERY_TTL_MS = 3600 * 1000;
+
+export interface OidcProviderOptions {
+  name: string;
+  label: string;
+  issuerUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scope: string;
+  prompt?: string;
+  loginPath: string;
+  callbackPath: string;
+  // Treat the email claim as verified without email_verified (Replit doesn't send it)
+  trustEmail?: boolean;
+}
+
+function claimString(claims: client.IDToken, ...names: string[]): string | undefined {
+  for (const name of names) {
+    if (typeof claims[name] === "string" && claims[name]) return claims[name] as string;
+  }
+  return undefined;
+}
+
+function tokenFields(tokens: Tokens, previous?: SessionUser): Pick<SessionUser, "expires_at" | "refresh_token"> {
+  const expiresIn = tokens.expiresIn();
+  return {
+    expires_at: tokens.claims()?.exp ?? (expiresIn === undefined ? undefined : Math.floor(Date.now() / 1000) + expiresIn),
+    refresh_token: tokens.refresh_token ?? previous?.refresh_token,
+  };
+}
+
+/**
+ * OidcAuthProvider: sign-in through any OpenID Connect issuer, using
+ * discovery and the authorization code flow. Callback URLs are built from
+ * APP_URL, never from the request host.
+ */
+export class OidcAuthProvider implements AuthProvider {
+  private discovery?: { config: Promise<client.Configuration>; at: number };
+
+  constructor(private readonly options: OidcProviderOptions) {}
+
+  get name() {
+    return this.options.name;
+  }
+
+  get label() {
+    return this.options.label;
+  }
+
+  get loginPath() {
+    return this.options.loginPath;
+  }
+
+  private getConfig(): Promise<client.Configuration> {
+    if (!this.discovery || Date.now() - this.discovery.at > DISCOVERY_TTL_MS) {
+      const { issuerUrl, clientId, clientSecret } = this.options;
+      const config = client.discovery(new URL(issuerUrl), clientId, clientSecret);
+      // A failed discovery is retried on the next use rather than cached
+      config.catch(() => {
+        if (this.discovery?.config === config) this.discovery = undefined;
+      });
+      this.discovery = { config, at: Date.now() };
+    }
+    return this.discovery.config;
+  }
+
+  private callbackUrl(): string {
+    return `${appUrl()}${this.options.callbackPath}`;
+  }
+
+  async setup(app: Express) {
+    const { name, scope, prompt, loginPath, callbackPath, trustEmail } = this.options;
+    const config = await this.getConfig();
+
+    // Signing in with a new issuer account while signed in links it to the current user
+    const verify: VerifyFunctionWithRequest = async (
+      req: Request,
+      tokens: Tokens,
+      verified: passport.AuthenticateCallback,
+    ) => {
+      try {
+        const claims = tokens.claims();
+        if (!claims) throw new Error(`${name} returned no ID token`);
+
+        const email = claimString(claims, "email");
+        const user = await findOrCreateUser({
+          provider: name,
+          subject: claims.sub,
+          email,
+          emailVerified: Boolean(email) && (trustEmail || claims.email_verified === true),
+          firstName: claimString(claims, "given_name", "first_name"),
+          lastName: claimString(claims, "family_name", "last_name"),
+          profileImageUrl: claimString(claims, "picture", "profile_image_url"),
+        }, getOptionalUserId(req));
+
+        verified(null, { id: user.id, provider: name, ...tokenFields(tokens) });
+      } catch (error) {
+        verified(error as Error);
+      }
+    };
+
+    passport.use(new Strategy({ name, config, scope, passReqToCallback: true }, verify));
+
+    const api = new ApiRouter("", "Auth", "none");
+
+    api.get(loginPath, {
+      summary: `Sign in with ${this.label}`,
+      responses: { 302: `To ${this.label}'s authorization page` },
+    }, (req, res) => this.authenticate(req, res, { prompt, callbackURL: this.callbackUrl() }));
+
+    api.get(callbackPath, {
+      summary: `Finish signing in with ${this.label}`,
+      responses: { 302: "Into the app when signed in, back to the login route when not" },
+    }, (req, res) => this.authenticate(req, res, {
+      callbackURL: this.callbackUrl(),
+      successReturnToOrRedirect: "/",
+      failureRedirect: loginPath,
+    }));
+
+    app.use(api.router);
+  }
+
+  // passport.authenticate ends the response with a redirect; this only settles if it calls next
+  private authenticate(req: Request, res: Response, options: AuthenticateOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+      passport.authenticate(this.name, options)(req, res, (error?: unknown) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  async refresh(user: SessionUser): Promise<boolean> {
+    if (!user.refresh_token) return false;
+    try {
+      const tokens = await client.refreshTokenGrant(await this.getConfig(), user.refresh_token);
+      Object.assign(user, tokenFields(tokens, user));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async logoutUrl(_req: Request): Promise<string | undefined> {
+    const config = await this.getConfig();
+    if (!config.serverMetadata().end_session_endpoint) return undefined;
+    return client.buildEndSessionUrl(config, {
+      client_id: this.options.clientId,
+      post_logout_redirect_uri: appUrl(),
+    }).href;
+  }
+}
+
+// OIDC provider configuration
+//
+//   replit:  REPL_ID, ISSUER_URL (default https://replit.com/oidc); keeps /api/login and /api/callback
+//   oidc:    OIDC_ISSUER_URL, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET (optional for public clients),
+//            OIDC_SCOPES (default "openid email profile offline_access"), OIDC_LABEL;
+//            routes /api/auth/oidc/login and /api/auth/oidc/callback
+
+export function replitProvider(): OidcAuthProvider {
+  if (!process.env.REPL_ID) throw new Error("REPL_ID must be set to use the replit auth provider");
+  return new OidcAuthProvider({
+    name: "replit",
+    label: "Replit",
+    issuerUrl: process.env.ISSUER_URL ?? "https://replit.com/oidc",
+    clientId: process.env.REPL_ID,
+    scope: "openid email profile offline_access",
+    prompt: "login consent",
+    loginPath: "/api/login",
+    callbackPath: "/api/callback",
+    trustEmail: true,
+  });
+}
+
+export function genericOidcProvider(): OidcAuthProvider {
+  if (!process.env.OIDC_ISSUER_URL || !process.env.OIDC_CLIENT_ID) {
+    throw new Error("OIDC_ISSUER_URL and OIDC_CLIENT_ID must be set to use the oidc auth provider");
+  }
+  return new OidcAuthProvider({
+    name: "oidc",
+    label: process.env.OIDC_LABEL || "Single sign-on",
+    issuerUrl: process.env.OIDC_ISSUER_URL,
+    clientId: process.env.OIDC_CLIENT_ID,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    scope: process.env.OIDC_SCOPES || "openid email profile offline_access",
+    loginPath: "/api/auth/oidc/login",
+    callbackPath: "/api/auth/oidc/callback",
+  });
+}
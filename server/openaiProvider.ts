@@ -0,0 +1,135 @@
+import OpenAI from "openai";
+import {
+  generateTitleWithChat,
+  type ChatMessage,
+  type ChatRequest,
+  type ChatResult,
+  type LLMProvider,
+  type ModerationResult,
+} from "./llm";
+import { UpstreamProviderError } from "./errors";
+
+type OpenAIMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+// User turns with images become multi-part content; everything else stays plain text
+function toOpenAIMessages(messages: ChatMessage[]): OpenAIMessage[] {
+  return messages.map(({ role, content, images }): OpenAIMessage => {
+    if (role !== "user" || !images?.length) return { role, content };
+    return {
+      role,
+      content: [
+        { type: "text", text: content },
+        ...images.map(url => ({ type: "image_url" as const, image_url: { url } })),
+      ],
+    };
+  });
+}
+
+// API and network failures become UpstreamProviderError; aborts are passed through as-is
+function upstreamError(provider: string, error: unknown): unknown {
+  if (error instanceof OpenAI.APIUserAbortError || !(error instanceof OpenAI.APIError)) return error;
+  return new UpstreamProviderError(provider, error);
+}
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = "openai";
+  protected client: OpenAI;
+  protected model: string;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    this.model = options.model;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const completion = await this.client.chat.completions.create(
+      {
+        model: request.model || this.model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      },
+      { signal: request.signal },
+    ).catch(error => { throw upstreamError(this.name, error); });
+
+    return {
+      content: completion.choices[0]?.message?.content ?? "",
+      model: completion.model,
+      usage: completion.usage && {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+      },
+    };
+  }
+
+  async stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    const model = request.model || this.model;
+    try {
+      return await this.streamCompletion(model, request, onDelta);
+    } catch (error) {
+      throw upstreamError(this.name, error);
+    }
+  }
+
+  private async streamCompletion(model: string, request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+      },
+      { signal: request.signal },
+    );
+
+    let content = "";
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    }
+    return { content, model };
+  }
+
+  async generateTitle(messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+    return await generateTitleWithChat(this, messages, signal);
+  }
+
+  async moderate(input: string): Promise<ModerationResult> {
+    const result = await this.client.moderations.create({ input })
+      .catch(error => { throw upstreamError(this.name, error); });
+    const moderation = result.results[0];
+    if (!moderation) return { flagged: false, categories: [] };
+
+    const categories = Object.entries(moderation.categories)
+      .filter(([, flagged]) => flagged)
+      .map(([category]) => category);
+    return { flagged: moderation.flagged, categories };
+  }
+}
+
+/**
+ * OpenAICompatibleProvider: self-hosted models behind an OpenAI-compatible
+ * API (vLLM, Ollama, LM Studio, ...). These servers have no moderation
+ * endpoint, so moderation always passes.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = "compatible";
+
+  constructor(options: OpenAIProviderOptions & { baseURL: string }) {
+    super({ ...options, apiKey: options.apiKey || "not-needed" });
+  }
+
+  async moderate(_input: string): Promise<ModerationResult> {
+    return { flagged: false, categories: [] };
+  }
+}
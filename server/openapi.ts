@@ -0,0 +1,282 @@
+import { Router, type Request, type RequestHandler, type Response } from "express";
+import { z, type AnyZodObject, type ZodTypeAny } from "zod";
+import {
+  extendZodWithOpenApi,
+  OpenAPIRegistry,
+  OpenApiGeneratorV31,
+  type ResponseConfig,
+  type RouteConfig,
+} from "@asteasolutions/zod-to-openapi";
+import type { ApiKeyScope } from "../shared/schema";
+import { ValidationError } from "./errors";
+
+// Adds .openapi() to zod schemas; must run before any schema is registered
+extendZodWithOpenApi(z);
+
+const registry = new OpenAPIRegistry();
+
+// Every error response, whatever the status (see errors.ts)
+const errorSchema = registry.register("Error", z.object({
+  error: z.string().openapi({ description: "Machine-readable code, e.g. not_found or plan_required" }),
+  message: z.string(),
+}).passthrough().openapi({ description: "Routes add details such as fieldErrors, requiredPlan or retryAfter" }));
+
+registry.registerComponent("securitySchemes", "session", {
+  type: "apiKey",
+  in: "cookie",
+  name: "connect.sid",
+  description: "Browser session, set by any sign-in route",
+});
+
+registry.registerComponent("securitySchemes", "apiKey", {
+  type: "http",
+  scheme: "bearer",
+  description: "Personal API key (Pro plan), limited to the routes and scopes listed on each operation",
+});
+
+// Registers a named schema under components/schemas, so operations refer to it by name
+export function component<T extends ZodTypeAny>(name: string, schema: T): T {
+  return registry.register(name, schema);
+}
+
+type Method = "get" | "post" | "put" | "patch" | "delete";
+
+// "required": signed in (isAuthenticated); "optional": anonymous callers get less
+type Auth = "required" | "optional" | "none";
+
+// A JSON body schema, a description alone, or a body in another content type
+export type ResponseSpec = ZodTypeAny | string | { description: string; schema?: ZodTypeAny; contentType?: string };
+
+type PathParams = z.ZodObject<Record<string, z.ZodString>>;
+
+export interface RouteSpec<P extends AnyZodObject, Q extends AnyZodObject, B extends ZodTypeAny> {
+  summary: string;
+  description?: string;
+  // Defaults to a string for each :param in the path
+  params?: P;
+  query?: Q;
+  // JSON request body
+  body?: B;
+  responses: Record<number, ResponseSpec>;
+  // Defaults to the router's
+  auth?: Auth;
+  // Lets API keys with this scope call the route; without it the route is session-only
+  apiKeyScope?: ApiKeyScope;
+}
+
+// What a route's schemas parsed out of the request
+export interface RouteInput<P extends AnyZodObject, Q extends AnyZodObject, B extends ZodTypeAny> {
+  params: z.output<P>;
+  query: z.output<Q>;
+  body: z.output<B>;
+}
+
+export type RouteHandler<P extends AnyZodObject, Q extends AnyZodObject, B extends ZodTypeAny> =
+  (req: Request, res: Response, input: RouteInput<P, Q, B>) => unknown;
+
+const statusDescriptions: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  202: "Accepted",
+  204: "No content",
+  302: "Redirect",
+};
+
+function responseConfig(status: number, spec: ResponseSpec): ResponseConfig {
+  if (typeof spec === "string") return { description: spec };
+  if (spec instanceof z.ZodType) {
+    return { description: statusDescriptions[status] ?? "OK", content: { "application/json": { schema: spec } } };
+  }
+  return {
+    description: spec.description,
+    content: spec.schema ? { [spec.contentType ?? "application/json"]: { schema: spec.schema } } : undefined,
+  };
+}
+
+function pathParams(path: string): PathParams {
+  const names = Array.from(path.matchAll(/:(\w+)/g), match => match[1]);
+  return z.object(Object.fromEntries(names.map(name => [name, z.string()])));
+}
+
+function security(auth: Auth, apiKeyScope?: ApiKeyScope): RouteConfig["security"] {
+  if (auth === "none") return [];
+  const schemes: Record<string, string[]>[] = [{ session: [] }];
+  if (apiKeyScope) schemes.push({ apiKey: [apiKeyScope] });
+  return auth === "optional" ? [{}, ...schemes] : schemes;
+}
+
+function parse<T extends ZodTypeAny>(schema: T, value: unknown): z.output<T> {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) throw ValidationError.fromZod(parsed.error);
+  return parsed.data;
+}
+
+const apiKeyRoutes: { method: string; pattern: RegExp; scope: ApiKeyScope }[] = [];
+
+// The scope an API key needs for a request, or undefined for session-only routes
+export function apiKeyScopeFor(method: string, path: string): ApiKeyScope | undefined {
+  return apiKeyRoutes.find(route => route.method === method && route.pattern.test(path))?.scope;
+}
+
+/**
+ * ApiRouter: an Express router whose routes carry zod schemas for their
+ * params, query, body and responses. Each route is registered in the OpenAPI
+ * document, and its request is parsed with the same schemas before the final
+ * handler runs, which receives the parsed values as its third argument.
+ * Mount `.router` at the basePath given here.
+ */
+export class ApiRouter {
+  readonly router = Router();
+
+  constructor(
+    private readonly basePath: string,
+    private readonly tag: string,
+    private readonly auth: Auth = "required",
+  ) {}
+
+  use(...handlers: RequestHandler[]) {
+    this.router.use(...handlers);
+    return this;
+  }
+
+  get<P extends AnyZodObject = PathParams, Q extends AnyZodObject = AnyZodObject, B extends ZodTypeAny = z.ZodUndefined>(
+    path: string, spec: RouteSpec<P, Q, B>, ...handlers: [...RequestHandler[], RouteHandler<P, Q, B>]
+  ) {
+    return this.route("get", path, spec, handlers);
+  }
+
+  post<P extends AnyZodObject = PathParams, Q extends AnyZodObject = AnyZodObject, B extends ZodTypeAny = z.ZodUndefined>(
+    path: string, spec: RouteSpec<P, Q, B>, ...handlers: [...RequestHandler[], RouteHandler<P, Q, B>]
+  ) {
+    return this.route("post", path, spec, handlers);
+  }
+
+  put<P extends AnyZodObject = PathParams, Q extends AnyZodObject = AnyZodObject, B extends ZodTypeAny = z.ZodUndefined>(
+    path: string, spec: RouteSpec<P, Q, B>, ...handlers: [...RequestHandler[], RouteHandler<P, Q, B>]
+  ) {
+    return this.route("put", path, spec, handlers);
+  }
+
+  patch<P extends AnyZodObject = PathParams, Q extends AnyZodObject = AnyZodObject, B extends ZodTypeAny = z.ZodUndefined>(
+    path: string, spec: RouteSpec<P, Q, B>, ...handlers: [...RequestHandler[], RouteHandler<P, Q, B>]
+  ) {
+    return this.route("patch", path, spec, handlers);
+  }
+
+  delete<P extends AnyZodObject = PathParams, Q extends AnyZodObject = AnyZodObject, B extends ZodTypeAny = z.ZodUndefined>(
+    path: string, spec: RouteSpec<P, Q, B>, ...handlers: [...RequestHandler[], RouteHandler<P, Q, B>]
+  ) {
+    return this.route("delete", path, spec, handlers);
+  }
+
+  private route<P extends AnyZodObject, Q extends AnyZodObject, B extends ZodTypeAny>(
+    method: Method,
+    path: string,
+    spec: RouteSpec<P, Q, B>,
+    handlers: [...RequestHandler[], RouteHandler<P, Q, B>],
+  ) {
+    const fullPath = `${this.basePath}${path === "/" ? "" : path}` || "/";
+    const params = spec.params ?? pathParams(path);
+
+    registry.registerPath({
+      method,
+      path: fullPath.replace(/:(\w+)/g, "{$1}"),
+      tags: [this.tag],
+      summary: spec.summary,
+      description: spec.description,
+      security: security(spec.auth ?? this.auth, spec.apiKeyScope),
+      request: {
+        params,
+        query: spec.query,
+        body: spec.body && { required: true, content: { "application/json": { schema: spec.body } } },
+      },
+      responses: {
+        ...Object.fromEntries(Object.entries(spec.responses).map(([status, response]) => [
+          status,
+          responseConfig(Number(status), response),
+        ])),
+        default: { description: "Error", content: { "application/json": { schema: errorSchema } } },
+      },
+    });
+
+    if (spec.apiKeyScope) {
+      apiKeyRoutes.push({
+        method: method.toUpperCase(),
+        pattern: new RegExp(`^${fullPath.replace(/:\w+/g, "[^/]+")}/?$`),
+        scope: spec.apiKeyScope,
+      });
+    }
+
+    const middleware = handlers.slice(0, -1) as RequestHandler[];
+    const handler = handlers[handlers.length - 1] as RouteHandler<P, Q, B>;
+
+    this.router[method](path, ...middleware, (req: Request, res: Response, next: (error?: unknown) => void) => {
+      try {
+        const input: RouteInput<P, Q, B> = {
+          params: parse(params, req.params),
+          query: parse(spec.query ?? z.object({}).passthrough(), req.query),
+          body: spec.body ? parse(spec.body, req.body) : undefined,
+        };
+        Promise.resolve(handler(req, res, input)).catch(next);
+      } catch (error) {
+        next(error);
+      }
+    });
+    return this;
+  }
+}
+
+let document: ReturnType<OpenApiGeneratorV31["generateDocument"]> | undefined;
+
+// Built on first use, once every router has registered its routes
+export function openApiDocument() {
+  document ??= new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: "3.1.0",
+    info: {
+      title: "Fizz API",
+      version: "1.0.0",
+      description: "Errors share one shape: { error, message, ...details }. Chat replies stream as Server-Sent Events.",
+    },
+  });
+  return document;
+}
+
+// The reference UI is a pinned build checked against its hash; the bundle is
+// self-contained. To upgrade, take dist/browser/standalone.js from the npm
+// tarball of the new version (npm pack @scalar/api-reference@<version>) and run
+// openssl dgst -sha384 -binary standalone.js | openssl base64 -A
+const SCALAR_VERSION = "1.72.1";
+const SCALAR_INTEGRITY = "sha384-U11tb2XnKvmwt8RlTvnwUnYgrN+ur4Xyh9htLhjajWNR/Oyl5AX5DEz00qRmlrmK";
+
+const docsPage = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Fizz API</title>
+  </head>
+  <body>
+    <script id="api-reference" data-url="/api/openapi.json"></script>
+    <script
+      src="https://cdn.jsdelivr.net/npm/@scalar/api-reference@${SCALAR_VERSION}/dist/browser/standalone.js"
+      integrity="${SCALAR_INTEGRITY}"
+      crossorigin="anonymous"
+    ></script>
+  </body>
+</html>
+`;
+
+export function createOpenApiRouter() {
+  const router = Router();
+
+  router.get("/openapi.json", (_req, res) => {
+    res.json(openApiDocument());
+  });
+
+  // Rendered reference for the document above
+  router.get("/docs", (_req, res) => {
+    res.type("html").send(docsPage);
+  });
+
+  return router;
+}
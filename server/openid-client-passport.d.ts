@@ -0,0 +1,5 @@
+// openid-client declares its passport entry point only in package exports,
+// which "Node" module resolution doesn't read; point the types at the file
+declare module "openid-client/passport" {
+  export * from "openid-client/build/passport";
+}
@@ -1,18 +1,180 @@
-import { Router } from "express";
+import type { Request } from "express";
+import { z } from "zod";
+import { insertCustomPersonaSchema, type CustomPersona } from "../shared/schema";
 import { personas } from "../shared/personas";
+import { storage } from "./storage";
+import { isAuthenticated, getUserId, getOptionalUserId } from "./auth";
+import { assertModelAllowed, enforceCustomPersonaLimit, getPlan } from "./entitlements";
+import { isModelAllowed } from "./llm";
+import { NotFoundError } from "./errors";
+import { ApiRouter } from "./openapi";
+import {
+  customPersonaDetailSchema,
+  customPersonaSchema,
+  galleryPersonaSchema,
+  personaListSchema,
+  personaSchema,
+} from "./apiSchemas";
+
+const updateCustomPersonaSchema = insertCustomPersonaSchema.partial();
+
+const galleryQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  sort: z.enum(["popular", "newest"]).default("popular"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Built-in and custom personas in one shape, for pickers that list both
+function builtInEntry(persona: (typeof personas)[number]) {
+  return { ...persona, source: "builtin" as const };
+}
+
+function customEntry(persona: CustomPersona) {
+  return {
+    id: persona.id,
+    name: persona.name,
+    description: persona.description ?? "",
+    icon: persona.avatar,
+    systemPrompt: persona.systemPrompt,
+    model: persona.model,
+    visibility: persona.visibility,
+    forkedFromId: persona.forkedFromId,
+    source: "custom" as const,
+  };
+}
+
+// Public and unlisted personas can be read by anyone; private ones only by their owner
+function canView(persona: CustomPersona, userId: string | undefined) {
+  return persona.visibility !== "private" || persona.userId === userId;
+}
+
+// Loads a persona the caller owns; anything else is a 404
+async function loadOwnPersona(req: Request): Promise<CustomPersona> {
+  const persona = await storage.getCustomPersona(req.params.id, getUserId(req));
+  if (!persona) throw new NotFoundError("Persona");
+  return persona;
+}
 
 export function createPersonasRouter() {
-  const router = Router();
+  const api = new ApiRouter("/api/personas", "Personas", "optional");
+
+  // Built-in personas, followed by the caller's own custom personas when signed in
+  api.get("/", {
+    summary: "List personas",
+    responses: { 200: personaListSchema },
+    apiKeyScope: "personas",
+  }, async (req, res) => {
+    const userId = getOptionalUserId(req);
+    const custom = userId ? await storage.getCustomPersonas(userId) : [];
+    res.json([...personas.map(builtInEntry), ...custom.map(customEntry)]);
+  });
+
+  api.get("/custom", {
+    summary: "List your custom personas",
+    responses: { 200: z.array(customPersonaSchema) },
+    auth: "required",
+    apiKeyScope: "personas",
+  }, isAuthenticated, async (req, res) => {
+    res.json(await storage.getCustomPersonas(getUserId(req)));
+  });
+
+  api.post("/custom", {
+    summary: "Create a custom persona",
+    body: insertCustomPersonaSchema,
+    responses: { 201: customPersonaSchema },
+    auth: "required",
+    apiKeyScope: "personas",
+  }, isAuthenticated, enforceCustomPersonaLimit, async (req, res, { body }) => {
+    assertModelAllowed(await getPlan(req, res), body.model);
+    res.status(201).json(await storage.createCustomPersona(body, getUserId(req)));
+  });
+
+  // Community gallery: public personas only, searchable by name and description
+  api.get("/custom/gallery", {
+    summary: "Browse the persona gallery",
+    query: galleryQuerySchema,
+    responses: { 200: z.array(galleryPersonaSchema) },
+    apiKeyScope: "personas",
+  }, async (_req, res, { query }) => {
+    const { q, ...options } = query;
+    const gallery = await storage.getPersonaGallery({ query: q || undefined, ...options });
+    res.json(gallery.map(({ userId, ...persona }) => persona));
+  });
+
+  api.get("/custom/:id", {
+    summary: "Get a custom persona",
+    responses: { 200: customPersonaDetailSchema },
+    apiKeyScope: "personas",
+  }, async (req, res) => {
+    const persona = await storage.getCustomPersonaById(req.params.id);
+    const userId = getOptionalUserId(req);
+    if (!persona || !canView(persona, userId)) throw new NotFoundError("Persona");
+
+    const { userId: ownerId, ...rest } = persona;
+    res.json({ ...rest, isOwner: ownerId === userId });
+  });
+
+  api.patch("/custom/:id", {
+    summary: "Update a custom persona",
+    body: updateCustomPersonaSchema,
+    responses: { 200: customPersonaSchema },
+    auth: "required",
+    apiKeyScope: "personas",
+  }, isAuthenticated, async (req, res, { body }) => {
+    const persona = await loadOwnPersona(req);
+    assertModelAllowed(await getPlan(req, res), body.model);
+    res.json(await storage.updateCustomPersona(persona.id, persona.userId, body));
+  });
+
+  // Conversations using a deleted persona fall back to the default persona
+  api.delete("/custom/:id", {
+    summary: "Delete a custom persona",
+    responses: { 204: "Deleted" },
+    auth: "required",
+    apiKeyScope: "personas",
+  }, isAuthenticated, async (req, res) => {
+    const persona = await loadOwnPersona(req);
+    await storage.deleteCustomPersona(persona.id, persona.userId);
+    res.status(204).end();
+  });
+
+  // Copies a public or unlisted persona (or one of your own) into your account as a
+  // private persona; a model your plan doesn't include is dropped from the copy
+  api.post("/custom/:id/fork", {
+    summary: "Fork a persona",
+    responses: { 201: customPersonaSchema },
+    auth: "required",
+    apiKeyScope: "personas",
+  }, isAuthenticated, enforceCustomPersonaLimit, async (req, res) => {
+    const userId = getUserId(req);
+    const source = await storage.getCustomPersonaById(req.params.id);
+    if (!source || !canView(source, userId)) throw new NotFoundError("Persona");
+    const plan = await getPlan(req, res);
+
+    const fork = await storage.createCustomPersona({
+      name: source.name,
+      description: source.description,
+      systemPrompt: source.systemPrompt,
+      avatar: source.avatar,
+      model: source.model && isModelAllowed(plan, source.model) ? source.model : null,
+      visibility: "private",
+    }, userId, source.id);
+    if (source.userId !== userId) await storage.incrementPersonaForkCount(source.id);
 
-  router.get("/", (_req, res) => {
-    res.json(personas);
+    res.status(201).json(fork);
   });
 
-  router.get("/:id", (req, res) => {
+  api.get("/:id", {
+    summary: "Get a built-in persona",
+    responses: { 200: personaSchema },
+    auth: "none",
+    apiKeyScope: "personas",
+  }, (req, res) => {
     const persona = personas.find(p => p.id === req.params.id);
-    if (!persona) return res.status(404).json({ error: "Not found" });
+    if (!persona) throw new NotFoundError("Persona");
     res.json(persona);
   });
 
-  return router;
+  return api.router;
 }
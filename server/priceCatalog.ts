@@ -0,0 +1,86 @@
+import type { Plan } from "../shared/plans";
+import { storage } from "./storage";
+import { getStripeSecretKey } from "./stripeClient";
+import { logger } from "./logger";
+
+export type PaidPlan = Exclude<Plan, "free">;
+export type StripeMode = "test" | "live";
+
+export interface CatalogEntry {
+  plan: PaidPlan;
+  name: string;
+}
+
+export const priceCatalog: Record<PaidPlan, CatalogEntry> = {
+  plus: { plan: "plus", name: "Fizz Plus" },
+  pro: { plan: "pro", name: "Fizz Pro" },
+};
+
+export const paidPlans = Object.keys(priceCatalog) as PaidPlan[];
+export const stripeModes: StripeMode[] = ["test", "live"];
+
+// Price configuration
+//
+//   STRIPE_PRICE_<PLAN>_<MODE>   the Stripe price ID for a plan in a mode, e.g.
+//                                STRIPE_PRICE_PLUS_LIVE; there are no defaults
+//                                (see STRIPE_SETUP.md)
+function priceEnvVar(plan: PaidPlan, mode: StripeMode): string {
+  return `STRIPE_PRICE_${plan.toUpperCase()}_${mode.toUpperCase()}`;
+}
+
+export function configuredPriceId(plan: PaidPlan, mode: StripeMode): string | undefined {
+  return process.env[priceEnvVar(plan, mode)] || undefined;
+}
+
+// Plans whose price was missing from stripe.prices at startup; checkout refuses them
+const unavailablePlans = new Set<PaidPlan>();
+
+export async function getStripeMode(): Promise<StripeMode> {
+  const secretKey = await getStripeSecretKey();
+  return secretKey?.startsWith("sk_live_") ? "live" : "test";
+}
+
+// The plan's price in the current Stripe mode, or undefined when it isn't configured
+export async function priceIdFor(plan: PaidPlan): Promise<string | undefined> {
+  return configuredPriceId(plan, await getStripeMode());
+}
+
+export function isPlanAvailable(plan: PaidPlan): boolean {
+  return !unavailablePlans.has(plan);
+}
+
+// The plan a Stripe price unlocks (either mode), or null for prices we don't sell
+export function planForPrice(priceId: string | null | undefined): Plan | null {
+  if (!priceId) return null;
+  const entry = paidPlans.find(plan => stripeModes.some(mode => configuredPriceId(plan, mode) === priceId));
+  return entry ?? null;
+}
+
+/**
+ * Checks every plan's configured price for the current mode against the
+ * synced stripe.prices table. Unconfigured, missing or inactive prices are
+ * logged and the plan is marked unavailable rather than failing checkout at
+ * the Stripe API. Runs on every start (see index.ts).
+ */
+export async function validatePriceCatalog(): Promise<PaidPlan[]> {
+  const mode = await getStripeMode();
+  const activePrices = await storage.listPrices(true, 100);
+  const activeIds = new Set(activePrices.map(price => price.id));
+
+  unavailablePlans.clear();
+  for (const plan of paidPlans) {
+    const priceId = configuredPriceId(plan, mode);
+    const problem = !priceId ? "is not configured" : !activeIds.has(priceId) ? `is not an active ${mode} price in stripe.prices` : null;
+    if (problem) {
+      unavailablePlans.add(plan);
+      logger.error(`Price catalog: ${priceCatalog[plan].name} price ${problem}`, {
+        plan,
+        priceId,
+        mode,
+        hint: `Set ${priceEnvVar(plan, mode)} or check your Stripe keys.`,
+      });
+    }
+  }
+
+  return [...unavailablePlans];
+}
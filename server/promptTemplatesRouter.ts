@@ -1,18 +1,172 @@
-import { Router } from "express";
-import { promptTemplates } from "../shared/promptTemplates";
+import type { Request } from "express";
+import { z } from "zod";
+import { insertPromptTemplateSchema, type UserPromptTemplate } from "../shared/schema";
+import {
+  checkTemplate,
+  fillTemplate,
+  promptTemplates,
+  valuesSchema,
+  type PromptTemplate,
+} from "../shared/promptTemplates";
+import { storage } from "./storage";
+import { isAuthenticated, getUserId, getOptionalUserId } from "./auth";
+import { NotFoundError, ValidationError } from "./errors";
+import { ApiRouter } from "./openapi";
+import {
+  promptTemplateSchema,
+  promptTemplateVersionSchema,
+  renderedPromptSchema,
+  userPromptTemplateSchema,
+} from "./apiSchemas";
+
+const updatePromptTemplateSchema = insertPromptTemplateSchema.partial();
+
+const renderSchema = z.object({
+  values: z.record(z.unknown()).default({}),
+  // Render an earlier version of a user template; defaults to the current one
+  version: z.number().int().min(1).optional(),
+});
+
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+function builtInEntry(template: PromptTemplate) {
+  return { ...template, source: "builtin" as const };
+}
+
+function userEntry(template: UserPromptTemplate, userId: string | undefined) {
+  const { userId: ownerId, ...rest } = template;
+  return { ...rest, source: "user" as const, isOwner: ownerId === userId };
+}
+
+// Private templates are only visible to their owner
+function canView(template: UserPromptTemplate, userId: string | undefined) {
+  return template.visibility !== "private" || template.userId === userId;
+}
+
+function invalidTemplate(problems: string[]) {
+  return new ValidationError("Invalid template", { formErrors: problems, fieldErrors: {} });
+}
+
+async function loadOwnTemplate(req: Request): Promise<UserPromptTemplate> {
+  const template = await storage.getPromptTemplate(req.params.id);
+  if (!template || template.userId !== getUserId(req)) throw new NotFoundError("Template");
+  return template;
+}
 
 export function createPromptTemplatesRouter() {
-  const router = Router();
+  const api = new ApiRouter("/api/prompts", "Prompt templates", "optional");
+
+  // Built-in templates, followed by the caller's own when signed in
+  api.get("/", {
+    summary: "List prompt templates",
+    responses: { 200: z.array(promptTemplateSchema) },
+  }, async (req, res) => {
+    const userId = getOptionalUserId(req);
+    const own = userId ? await storage.getPromptTemplates(userId) : [];
+    res.json([...promptTemplates.map(builtInEntry), ...own.map(t => userEntry(t, userId))]);
+  });
+
+  // Templates other users have shared publicly, most recently updated first
+  api.get("/public", {
+    summary: "List public prompt templates",
+    query: listQuerySchema,
+    responses: { 200: z.array(userPromptTemplateSchema) },
+  }, async (req, res, { query }) => {
+    const templates = await storage.getPublicPromptTemplates(query.limit, query.offset);
+    res.json(templates.map(t => userEntry(t, getOptionalUserId(req))));
+  });
+
+  api.post("/", {
+    summary: "Create a prompt template",
+    body: insertPromptTemplateSchema,
+    responses: { 201: userPromptTemplateSchema },
+    auth: "required",
+  }, isAuthenticated, async (req, res, { body }) => {
+    const problems = checkTemplate(body.template, body.variables ?? []);
+    if (problems.length) throw invalidTemplate(problems);
+
+    const userId = getUserId(req);
+    res.status(201).json(userEntry(await storage.createPromptTemplate(body, userId), userId));
+  });
+
+  api.get("/:id", {
+    summary: "Get a prompt template",
+    responses: { 200: promptTemplateSchema },
+  }, async (req, res) => {
+    const builtIn = promptTemplates.find(t => t.id === req.params.id);
+    if (builtIn) return res.json(builtInEntry(builtIn));
+
+    const userId = getOptionalUserId(req);
+    const template = await storage.getPromptTemplate(req.params.id);
+    if (!template || !canView(template, userId)) throw new NotFoundError("Template");
+    res.json(userEntry(template, userId));
+  });
+
+  // Editing the text or variables bumps the version; title, category and sharing don't
+  api.patch("/:id", {
+    summary: "Update a prompt template",
+    body: updatePromptTemplateSchema,
+    responses: { 200: userPromptTemplateSchema },
+    auth: "required",
+  }, isAuthenticated, async (req, res, { body }) => {
+    const current = await loadOwnTemplate(req);
+    const problems = checkTemplate(body.template ?? current.template, body.variables ?? current.variables);
+    if (problems.length) throw invalidTemplate(problems);
 
-  router.get("/", (_req, res) => {
-    res.json(promptTemplates);
+    const userId = getUserId(req);
+    const updated = await storage.updatePromptTemplate(current.id, userId, body);
+    if (!updated) throw new NotFoundError("Template");
+    res.json(userEntry(updated, userId));
   });
 
-  router.get("/:id", (req, res) => {
-    const template = promptTemplates.find(t => t.id === req.params.id);
-    if (!template) return res.status(404).json({ error: "Not found" });
-    res.json(template);
+  api.delete("/:id", {
+    summary: "Delete a prompt template",
+    responses: { 204: "Deleted" },
+    auth: "required",
+  }, isAuthenticated, async (req, res) => {
+    const template = await loadOwnTemplate(req);
+    await storage.deletePromptTemplate(template.id, template.userId);
+    res.status(204).end();
+  });
+
+  api.get("/:id/versions", {
+    summary: "List a template's versions",
+    responses: { 200: z.array(promptTemplateVersionSchema) },
+    auth: "required",
+  }, isAuthenticated, async (req, res) => {
+    const template = await loadOwnTemplate(req);
+    res.json(await storage.getPromptTemplateVersions(template.id));
+  });
+
+  // Validates the values against the declared variables and returns the filled prompt
+  api.post("/:id/render", {
+    summary: "Render a prompt template",
+    body: renderSchema,
+    responses: { 200: renderedPromptSchema },
+  }, async (req, res, { body }) => {
+    let source: Pick<PromptTemplate, "template" | "variables"> | undefined =
+      promptTemplates.find(t => t.id === req.params.id);
+    let version: number | undefined;
+
+    if (!source) {
+      const template = await storage.getPromptTemplate(req.params.id);
+      if (!template || !canView(template, getOptionalUserId(req))) throw new NotFoundError("Template");
+
+      version = body.version ?? template.version;
+      source = version === template.version
+        ? template
+        : await storage.getPromptTemplateVersion(template.id, version);
+      if (!source) throw new NotFoundError("Template version");
+    }
+
+    const values = valuesSchema(source.variables).safeParse(body.values);
+    if (!values.success) throw ValidationError.fromZod(values.error, "Invalid variables");
+
+    res.json({ prompt: fillTemplate(source.template, values.data), values: values.data, version });
   });
 
-  return router;
+  return api.router;
 }
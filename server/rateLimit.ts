@@ -0,0 +1,150 @@
+import type { Request, RequestHandler, Response } from "express";
+import type { Plan } from "../shared/plans";
+import { storage } from "./storage";
+import { getOptionalUserId } from "./auth";
+import { asyncHandler } from "./asyncHandler";
+import { getPlan } from "./entitlements";
+import { logger } from "./logger";
+import { RateLimitedError } from "./errors";
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * RateLimitStore: where counters live. The Postgres store is shared by every
+ * instance; the memory store only limits within one process (development).
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+const PRUNE_INTERVAL_MS = 10 * 60_000;
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastPrune = 0;
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    // Expired windows are reset on their next hit; this clears keys that never come back
+    if (Date.now() - this.lastPrune > PRUNE_INTERVAL_MS) {
+      this.lastPrune = Date.now();
+      storage.pruneRateLimits().catch(error => {
+        logger.error("Rate limit pruning failed", { error });
+      });
+    }
+    return await storage.hitRateLimit(key, windowMs);
+  }
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitHit>();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.windows.get(key);
+    if (current && current.resetAt.getTime() > now) {
+      current.count++;
+      return { ...current };
+    }
+
+    const resetAt = new Date((Math.floor(now / windowMs) + 1) * windowMs);
+    this.windows.set(key, { count: 1, resetAt });
+    return { count: 1, resetAt };
+  }
+}
+
+// A policy limits requests per fixed window: signed-in callers by user id with
+// a per-plan limit, anonymous callers by IP. A missing limit means unlimited.
+export interface RateLimitPolicy {
+  windowMs: number;
+  perUser?: Record<Plan, number>;
+  perIp?: number;
+}
+
+export const rateLimitPolicies = {
+  // Everything under /api
+  api: {
+    windowMs: 60_000,
+    perUser: { free: 120, plus: 300, pro: 600 },
+    perIp: 60,
+  },
+  // Generating replies: send, edit and regenerate
+  chat: {
+    windowMs: 60_000,
+    perUser: { free: 10, plus: 30, pro: 60 },
+  },
+  // Stripe checkout and portal sessions
+  billing: {
+    windowMs: 60 * 60_000,
+    perUser: { free: 10, plus: 10, pro: 10 },
+  },
+  // Login and OIDC callback
+  auth: {
+    windowMs: 15 * 60_000,
+    perIp: 30,
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof rateLimitPolicies;
+
+// Rate limit configuration
+//
+//   RATE_LIMIT_STORE   "postgres" (default) or "memory"
+//   RATE_LIMIT_DISABLED=true turns every policy off (e.g. for load tests)
+
+let store: RateLimitStore | undefined;
+
+export function getRateLimitStore(): RateLimitStore {
+  store ??= process.env.RATE_LIMIT_STORE === "memory" ? new MemoryRateLimitStore() : new PostgresRateLimitStore();
+  return store;
+}
+
+// Replace the configured store, e.g. with a MemoryRateLimitStore in tests
+export function setRateLimitStore(replacement: RateLimitStore) {
+  store = replacement;
+}
+
+async function subjectFor(req: Request, res: Response, policy: RateLimitPolicy) {
+  const userId = getOptionalUserId(req);
+  if (userId) {
+    const limit = policy.perUser?.[await getPlan(req, res)];
+    return limit === undefined ? null : { key: `user:${userId}`, limit };
+  }
+  return policy.perIp === undefined ? null : { key: `ip:${req.ip}`, limit: policy.perIp };
+}
+
+/**
+ * Applies a named policy. Responses carry the IETF RateLimit-Limit,
+ * RateLimit-Remaining, RateLimit-Reset (seconds) and RateLimit-Policy headers;
+ * 429s add Retry-After. If the store is unreachable requests are let through.
+ */
+export function rateLimit(name: RateLimitPolicyName): RequestHandler {
+  const policy: RateLimitPolicy = rateLimitPolicies[name];
+
+  return asyncHandler(async (req, res, next) => {
+    if (process.env.RATE_LIMIT_DISABLED === "true") return next();
+
+    const subject = await subjectFor(req, res, policy);
+    if (!subject) return next();
+
+    let hit: RateLimitHit;
+    try {
+      hit = await getRateLimitStore().hit(`${name}:${subject.key}`, policy.windowMs);
+    } catch (error: any) {
+      logger.error("Rate limit check failed", { policy: name, error });
+      return next();
+    }
+
+    const resetSeconds = Math.max(Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000), 0);
+    res.setHeader("RateLimit-Policy", `${subject.limit};w=${policy.windowMs / 1000}`);
+    res.setHeader("RateLimit-Limit", subject.limit);
+    res.setHeader("RateLimit-Remaining", Math.max(subject.limit - hit.count, 0));
+    res.setHeader("RateLimit-Reset", resetSeconds);
+
+    // The error middleware adds Retry-After
+    if (hit.count > subject.limit) throw new RateLimitedError(name, resetSeconds);
+
+    next();
+  });
+}
@@ -1,25 +1,78 @@
-import type { Express, Request, Response } from "express";
+import type { Express } from "express";
 
 // ⭐ IMPORTANT: Use .js extension for ESM/TypeScript on Railway
-import { createPersonasRouter } from "../shared/personas.js";
-import { createSchemaRouter } from "../shared/schema.js";
-import { createPromptTemplatesRouter } from "../shared/promptTemplates.js";
+import { createPersonasRouter } from "./personasRouter.js";
+import { createPromptTemplatesRouter } from "./promptTemplatesRouter.js";
+import { createConversationsRouter } from "./conversationsRouter.js";
+import { setupAuth } from "./auth.js";
+import { createEntitlementsRouter } from "./entitlements.js";
+import { createBillingRouter } from "./billingRouter.js";
+import { createMemoryRouter } from "./memoryRouter.js";
+import { createSearchRouter } from "./searchRouter.js";
+import { createDataRouter } from "./dataRouter.js";
+import { createSharedRouter } from "./sharedRouter.js";
+import { createAttachmentsRouter } from "./attachmentsRouter.js";
+import { rateLimit } from "./rateLimit.js";
+import { authenticateApiKey, createApiKeysRouter } from "./apiKeys.js";
+import { ApiRouter, createOpenApiRouter } from "./openapi.js";
+import { okSchema } from "./apiSchemas.js";
 
 export async function registerRoutes(app: Express) {
+  // Login attempts are limited per IP, ahead of the login routes themselves
+  app.use(["/api/login", "/api/callback", "/api/auth/oidc", "/api/auth/local", "/api/auth/dev"], rateLimit("auth"));
+
+  // Sessions and login routes must be in place before any guarded router
+  await setupAuth(app);
+
+  // Bearer API keys stand in for sessions; ahead of rate limiting so keys are limited per user
+  app.use("/api", authenticateApiKey);
+
+  // Request rate limits for every API route (stricter policies sit on chat and billing)
+  app.use("/api", rateLimit("api"));
+
   // Health endpoint
-  app.get("/api/health", (_req: Request, res: Response) => {
+  const health = new ApiRouter("/api/health", "Health", "none");
+  health.get("/", { summary: "Check the server is up", responses: { 200: okSchema } }, (_req, res) => {
     res.json({ status: "ok" });
   });
+  app.use("/api/health", health.router);
 
   // Personas routes
   app.use("/api/personas", createPersonasRouter());
 
-  // Database schema routes
-  app.use("/api/schema", createSchemaRouter());
+  // OpenAPI document (/api/openapi.json) and its rendered reference (/api/docs)
+  app.use("/api", createOpenApiRouter());
 
-  // Prompt templates routes
+  // Prompt templates: built-ins plus user-owned, versioned templates, and rendering
   app.use("/api/prompts", createPromptTemplatesRouter());
 
+  // Conversation, message and chat completion routes (authenticated)
+  app.use("/api/conversations", createConversationsRouter());
+
+  // Plan entitlements and usage for the signed-in user
+  app.use("/api/entitlements", createEntitlementsRouter());
+
+  // Billing: plan catalog, Stripe checkout, customer portal, subscription status
+  app.use("/api/billing", createBillingRouter());
+
+  // Long-term memory management
+  app.use("/api/memory", createMemoryRouter());
+
+  // Full-text search across the user's conversations
+  app.use("/api/search", createSearchRouter());
+
+  // Account export (zip) and conversation import
+  app.use("/api", createDataRouter());
+
+  // Public share-link snapshots (forking requires sign-in)
+  app.use("/api/shared", createSharedRouter());
+
+  // File and image uploads referenced from messages
+  app.use("/api/attachments", createAttachmentsRouter());
+
+  // Personal API keys (Pro): create, rename, rescope and revoke
+  app.use("/api/api-keys", createApiKeysRouter());
+
   // Return server instance
   const server = app.listen(0);
   return server;
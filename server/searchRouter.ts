@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { storage, type SearchCursor } from "./storage";
+import { isAuthenticated, getUserId } from "./auth";
+import { ValidationError } from "./errors";
+import { ApiRouter } from "./openapi";
+import { searchResultsSchema } from "./apiSchemas";
+
+// createdAt is a UTC timestamp without offset, as Postgres prints it; it must be
+// a real date (no February 30) since it goes straight into a ::timestamp cast
+const cursorSchema = z.object({
+  rank: z.number().finite(),
+  createdAt: z.string().datetime({ local: true })
+    .refine(value => {
+      const date = new Date(`${value}Z`);
+      return !isNaN(date.getTime()) && date.toISOString().slice(0, 19) === value.slice(0, 19);
+    }),
+  id: z.string().min(1),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "to" is inclusive: a date covers that whole day (UTC) and a timestamp its whole
+// millisecond, since stored times carry microseconds. Parsed to the exclusive bound after it.
+const toSchema = z.string().transform((value, ctx) => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    ctx.addIssue({ code: z.ZodIssueCode.invalid_date });
+    return z.NEVER;
+  }
+  return new Date(date.getTime() + (/^\d{4}-\d{2}-\d{2}$/.test(value) ? DAY_MS : 1));
+});
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  persona: z.string().optional(),
+  role: z.enum(["user", "assistant"]).optional(),
+  pinned: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  from: z.coerce.date().optional(),
+  to: toSchema.optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// Cursors are opaque to clients: base64url-encoded JSON of the last hit's position
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): SearchCursor | null {
+  try {
+    const parsed = cursorSchema.safeParse(JSON.parse(Buffer.from(value, "base64url").toString("utf8")));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createSearchRouter() {
+  const api = new ApiRouter("/api/search", "Search");
+
+  api.use(isAuthenticated);
+
+  // Full-text search over the caller's message content and conversation titles,
+  // most relevant first (newest first among equally relevant hits)
+  api.get("/", {
+    summary: "Search your conversations",
+    query: searchQuerySchema,
+    responses: { 200: searchResultsSchema },
+  }, async (req, res, { query }) => {
+    const { q, cursor: rawCursor, limit, to, ...filters } = query;
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+    if (rawCursor && !cursor) throw new ValidationError("Invalid cursor");
+
+    // Fetch one extra row to know whether there is another page
+    const hits = await storage.search(getUserId(req), q, { ...filters, before: to }, cursor, limit + 1);
+    const page = hits.slice(0, limit);
+    const last = page[page.length - 1];
+
+    res.json({
+      results: page.map(({ cursor: _position, ...hit }) => hit),
+      nextCursor: hits.length > limit && last ? encodeCursor(last.cursor) : null,
+    });
+  });
+
+  return api.router;
+}
@@ -0,0 +1,49 @@
+import type { Message, ShareLink, SharedMessage } from "../shared/schema";
+import { appUrl } from "./auth";
+
+// Only visible turns go into a snapshot; reactions and pins stay private
+export function snapshotMessages(messages: Message[]): SharedMessage[] {
+  return messages
+    .filter(m => (m.role === "user" || m.role === "assistant") && m.content)
+    .map(m => ({
+      role: m.role as SharedMessage["role"],
+      content: m.content,
+      imageUrl: m.imageUrl,
+      createdAt: m.createdAt.toISOString(),
+    }));
+}
+
+export function shareLinkState(link: ShareLink, now = new Date()): "active" | "expired" | "revoked" {
+  if (link.revokedAt) return "revoked";
+  if (link.expiresAt && link.expiresAt <= now) return "expired";
+  return "active";
+}
+
+// What the owner sees when managing links; the snapshot itself is left out
+export function shareLinkSummary(link: ShareLink) {
+  return {
+    id: link.id,
+    conversationId: link.conversationId,
+    url: `${appUrl()}/share/${link.token}`,
+    token: link.token,
+    title: link.title,
+    messageCount: link.messages.length,
+    viewCount: link.viewCount,
+    state: shareLinkState(link),
+    expiresAt: link.expiresAt,
+    revokedAt: link.revokedAt,
+    createdAt: link.createdAt,
+  };
+}
+
+// What anonymous viewers get: no owner, no conversation id
+export function publicSnapshot(link: ShareLink) {
+  return {
+    title: link.title,
+    persona: link.persona,
+    messages: link.messages,
+    viewCount: link.viewCount,
+    sharedAt: link.createdAt,
+    expiresAt: link.expiresAt,
+  };
+}
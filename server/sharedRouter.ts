@@ -0,0 +1,59 @@
+import type { Request } from "express";
+import type { ShareLink } from "../shared/schema";
+import { DEFAULT_PERSONA_ID, personas } from "../shared/personas";
+import { canUsePersona } from "../shared/plans";
+import { storage } from "./storage";
+import { isAuthenticated, getUserId } from "./auth";
+import { getPlan } from "./entitlements";
+import { AppError, NotFoundError } from "./errors";
+import { ApiRouter } from "./openapi";
+import { conversationSchema, sharedSnapshotSchema } from "./apiSchemas";
+import { importConversations } from "./exportImport";
+import { publicSnapshot, shareLinkState } from "./shareLinks";
+
+// Unknown and revoked tokens look the same to viewers; expired ones get a 410
+async function loadActiveLink(req: Request): Promise<ShareLink> {
+  const link = await storage.getShareLinkByToken(req.params.token);
+  const state = link ? shareLinkState(link) : "revoked";
+
+  if (!link || state === "revoked") throw new NotFoundError("Share link");
+  if (state === "expired") throw new AppError(410, "expired", "Share link has expired");
+  return link;
+}
+
+// Public, read-only access to shared conversation snapshots
+export function createSharedRouter() {
+  const api = new ApiRouter("/api/shared", "Sharing", "none");
+
+  // No authentication: anyone with the token can read the snapshot
+  api.get("/:token", {
+    summary: "View a shared conversation",
+    responses: { 200: sharedSnapshotSchema },
+  }, async (req, res) => {
+    const link = await loadActiveLink(req);
+    res.setHeader("Cache-Control", "no-store");
+    res.json(publicSnapshot(await storage.recordShareLinkView(link.id)));
+  });
+
+  // Copies the snapshot into a new conversation owned by the signed-in viewer.
+  // Personas the viewer can't use (including the sharer's custom ones) fall back to the default.
+  api.post("/:token/fork", {
+    summary: "Copy a shared conversation into your account",
+    responses: { 201: conversationSchema },
+    auth: "required",
+  }, isAuthenticated, async (req, res) => {
+    const link = await loadActiveLink(req);
+    const plan = await getPlan(req, res);
+    const isBuiltIn = personas.some(p => p.id === link.persona);
+    const persona = isBuiltIn && canUsePersona(plan, link.persona) ? link.persona : DEFAULT_PERSONA_ID;
+
+    const [conversation] = await importConversations(getUserId(req), [{
+      title: link.title,
+      persona,
+      messages: link.messages.map(m => ({ ...m, createdAt: new Date(m.createdAt) })),
+    }]);
+    res.status(201).json(conversation);
+  });
+
+  return api.router;
+}
@@ -0,0 +1,616 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import type { Database } from "./db";
+import { DatabaseStorage, type IStorage } from "./storage";
+import { MemStorage, type StripeFixtures } from "./memStorage";
+
+// The IStorage contract, run against both backends: MemStorage, and
+// DatabaseStorage on PGlite (Postgres compiled to WebAssembly, in process)
+// with the app's migrations applied. Tests share one store per backend, so
+// each one creates its own users.
+
+const created = 1_700_000_000;
+const stripeFixtures: StripeFixtures = {
+  products: [
+    { id: "prod_plus", name: "Plus", active: true, created },
+    { id: "prod_pro", name: "Pro", active: true, created: created + 1 },
+    { id: "prod_legacy", name: "Legacy", active: false, created: created - 1 },
+  ],
+  prices: [
+    { id: "price_plus", product: "prod_plus", active: true, currency: "usd", unit_amount: 499, created },
+    { id: "price_old", product: "prod_plus", active: false, currency: "usd", unit_amount: 399, created: created - 1 },
+  ],
+  subscriptions: [{ id: "sub_fixture", customer: "cus_fixture", status: "active", created }],
+};
+
+interface Backend {
+  name: string;
+  open(): Promise<{ storage: IStorage; close(): Promise<void> }>;
+}
+
+const memory: Backend = {
+  name: "MemStorage",
+  async open() {
+    return { storage: new MemStorage(stripeFixtures), close: async () => {} };
+  },
+};
+
+// The stripe.* tables belong to stripe-replit-sync; these hold just the
+// columns the read methods filter and sort on, plus what the tests compare
+async function seedStripe(client: PGlite) {
+  await client.exec(`
+    CREATE SCHEMA stripe;
+    CREATE TABLE stripe.products (id text PRIMARY KEY, name text, active boolean, created integer);
+    CREATE TABLE stripe.prices (id text PRIMARY KEY, product text, active boolean, currency text, unit_amount integer, created integer);
+    CREATE TABLE stripe.subscriptions (id text PRIMARY KEY, customer text, status text, created integer);
+  `);
+  for (const p of stripeFixtures.products) {
+    await client.query("INSERT INTO stripe.products VALUES ($1, $2, $3, $4)", [p.id, p.name, p.active, p.created]);
+  }
+  for (const p of stripeFixtures.prices) {
+    await client.query("INSERT INTO stripe.prices VALUES ($1, $2, $3, $4, $5, $6)",
+      [p.id, p.product, p.active, p.currency, p.unit_amount, p.created]);
+  }
+  for (const s of stripeFixtures.subscriptions) {
+    await client.query("INSERT INTO stripe.subscriptions VALUES ($1, $2, $3, $4)", [s.id, s.customer, s.status, s.created]);
+  }
+}
+
+const postgres: Backend = {
+  name: "DatabaseStorage",
+  async open() {
+    const client = new PGlite();
+    const db = drizzle(client);
+    await migrate(db, { migrationsFolder: "migrations" });
+    await seedStripe(client);
+    // PGlite results have node-postgres's shape, which is all DatabaseStorage relies on
+    return { storage: new DatabaseStorage(db as unknown as Database), close: () => client.close() };
+  },
+};
+
+let userCount = 0;
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+for (const backend of [memory, postgres]) {
+  describe(`${backend.name} storage contract`, () => {
+    let storage: IStorage;
+    let close: () => Promise<void>;
+
+    before(async () => {
+      ({ storage, close } = await backend.open());
+    });
+
+    after(async () => {
+      await close();
+    });
+
+    async function createUser(firstName?: string) {
+      return await storage.createUser({ email: `user${++userCount}@example.com`, firstName });
+    }
+
+    async function createConversation(userId: string, title = "Chat", createdAt?: Date) {
+      return await storage.createConversation({ title }, userId, createdAt);
+    }
+
+    async function send(conversationId: string, content: string, parentId?: string | null) {
+      return await storage.createMessage({ conversationId, role: "user", content, parentId });
+    }
+
+    describe("users", () => {
+      it("creates users with defaults and finds them by email in any case", async () => {
+        const user = await createUser("Ada");
+
+        assert.equal(user.plan, "free");
+        assert.deepEqual(user.memory, []);
+        assert.deepEqual(user.preferences, {});
+        assert.equal(user.emailVerifiedAt, null);
+        assert.equal((await storage.getUser(user.id))?.firstName, "Ada");
+        assert.equal((await storage.getUserByEmail(user.email!.toUpperCase()))?.id, user.id);
+        assert.equal(await storage.getUser("missing"), undefined);
+      });
+
+      it("upserts profile fields and keeps everything else", async () => {
+        const id = `upsert-${++userCount}`;
+        await storage.upsertUser({ id, email: `${id}@example.com`, firstName: "Old" });
+        await storage.updateUserPlan(id, "plus");
+        const updated = await storage.upsertUser({ id, email: `${id}@example.com`, firstName: "New" });
+
+        assert.equal(updated.firstName, "New");
+        assert.equal(updated.plan, "plus");
+      });
+
+      it("changes only the Stripe fields it is given", async () => {
+        const user = await createUser();
+        const customerId = `cus_${user.id}`;
+        await storage.updateUserStripeInfo(user.id, { stripeCustomerId: customerId, stripeSubscriptionId: "sub_1" });
+        await storage.updateUserStripeInfo(user.id, { stripeSubscriptionId: null });
+
+        const found = await storage.getUserByStripeCustomerId(customerId);
+        assert.equal(found?.id, user.id);
+        assert.equal(found?.stripeSubscriptionId, null);
+      });
+
+      it("keeps the first email verification time", async () => {
+        const user = await createUser();
+        await storage.markEmailVerified(user.id);
+        const first = (await storage.getUser(user.id))?.emailVerifiedAt;
+        await sleep(5);
+        await storage.markEmailVerified(user.id);
+
+        assert.ok(first);
+        assert.deepEqual((await storage.getUser(user.id))?.emailVerifiedAt, first);
+      });
+
+      it("restarts unconfirmed sign-ups and retires their verification links", async () => {
+        const user = await storage.createUser({ email: `user${++userCount}@example.com`, firstName: "Eve", passwordHash: "first" });
+        await storage.updateUserMemory(user.id, ["My name is Eve"]);
+        const expiresAt = new Date(Date.now() + 60_000);
+        await storage.createAuthToken({ tokenHash: `verify-${user.id}`, userId: user.id, purpose: "verify_email", expiresAt });
+        await storage.createAuthToken({ tokenHash: `reset-${user.id}`, userId: user.id, purpose: "reset_password", expiresAt });
+
+        const restarted = await storage.restartSignUp(user.id, { passwordHash: "second", firstName: "Ada" });
+        assert.equal(restarted?.passwordHash, "second");
+        assert.equal(restarted?.firstName, "Ada");
+        assert.equal(restarted?.lastName, null);
+        assert.deepEqual(restarted?.memory, []);
+        assert.equal(await storage.consumeAuthToken(`verify-${user.id}`, "verify_email"), undefined);
+        assert.ok(await storage.consumeAuthToken(`reset-${user.id}`, "reset_password"));
+
+        await storage.markEmailVerified(user.id);
+        assert.equal(await storage.restartSignUp(user.id, { passwordHash: "third" }), undefined);
+        assert.equal((await storage.getUser(user.id))?.passwordHash, "second");
+      });
+
+      it("stores memory, preferences and passwords", async () => {
+        const user = await createUser();
+        await storage.updateUserMemory(user.id, ["likes tea"]);
+        await storage.updateUserPreferences(user.id, { theme: "dark" });
+        await storage.setUserPassword(user.id, "hash");
+
+        const stored = await storage.getUser(user.id);
+        assert.deepEqual(stored?.memory, ["likes tea"]);
+        assert.deepEqual(stored?.preferences, { theme: "dark" });
+        assert.equal(stored?.passwordHash, "hash");
+      });
+    });
+
+    describe("conversations", () => {
+      it("lists a user's conversations newest first", async () => {
+        const user = await createUser();
+        const older = await createConversation(user.id, "Older", new Date("2024-01-01T00:00:00Z"));
+        const newer = await createConversation(user.id, "Newer", new Date("2024-02-01T00:00:00Z"));
+        await createConversation((await createUser()).id, "Someone else's");
+
+        assert.deepEqual((await storage.getConversations(user.id)).map(c => c.id), [newer.id, older.id]);
+        assert.deepEqual(older.createdAt, new Date("2024-01-01T00:00:00Z"));
+        assert.equal(older.persona, "general");
+      });
+
+      it("leaves titles the user set alone when generating one", async () => {
+        const user = await createUser();
+        const generated = await createConversation(user.id);
+        const named = await createConversation(user.id);
+        await storage.updateConversationTitle(named.id, "Mine");
+
+        assert.equal(await storage.setGeneratedTitle(generated.id, "Generated"), true);
+        assert.equal(await storage.setGeneratedTitle(named.id, "Generated"), false);
+        assert.equal((await storage.getConversation(named.id))?.title, "Mine");
+
+        await storage.setConversationTitleLocked(named.id, false);
+        assert.equal(await storage.setGeneratedTitle(named.id, "Generated"), true);
+      });
+
+      it("deletes only the owner's conversations, with their messages", async () => {
+        const user = await createUser();
+        const conversation = await createConversation(user.id);
+        const message = await send(conversation.id, "hello");
+
+        await storage.deleteConversation(conversation.id, (await createUser()).id);
+        assert.ok(await storage.getConversation(conversation.id));
+
+        await storage.deleteConversation(conversation.id, user.id);
+        assert.equal(await storage.getConversation(conversation.id), undefined);
+        assert.equal(await storage.getMessage(message.id), undefined);
+      });
+
+      it("imports conversations as a single branch", async () => {
+        const user = await createUser();
+        const createdAt = new Date("2023-05-01T12:00:00Z");
+        const conversation = await storage.importConversation({ title: "Imported" }, user.id, createdAt, [
+          { role: "user", content: "one" },
+          { role: "assistant", content: "two" },
+          { role: "user", content: "three" },
+        ]);
+
+        const path = await storage.getMessages(conversation.id);
+        assert.deepEqual(path.map(m => m.content), ["one", "two", "three"]);
+        assert.deepEqual(path.map(m => m.parentId), [null, path[0].id, path[1].id]);
+        assert.equal(conversation.activeMessageId, path[2].id);
+        assert.deepEqual(conversation.createdAt, createdAt);
+      });
+
+      it("stores rolling summaries", async () => {
+        const user = await createUser();
+        const conversation = await createConversation(user.id);
+        const message = await send(conversation.id, "hello");
+        await storage.updateConversationSummary(conversation.id, "Said hello", message.id);
+
+        const stored = await storage.getConversation(conversation.id);
+        assert.equal(stored?.summary, "Said hello");
+        assert.equal(stored?.summaryThroughId, message.id);
+      });
+    });
+
+    describe("messages", () => {
+      it("chains new messages onto the active leaf", async () => {
+        const conversation = await createConversation((await createUser()).id);
+        const first = await send(conversation.id, "first");
+        const second = await send(conversation.id, "second");
+
+        assert.equal(first.parentId, null);
+        assert.equal(second.parentId, first.id);
+        assert.equal((await storage.getConversation(conversation.id))?.activeMessageId, second.id);
+        assert.deepEqual((await storage.getMessages(conversation.id)).map(m => m.id), [first.id, second.id]);
+        assert.deepEqual(await storage.getMessages("missing"), []);
+      });
+
+      it("switches branches to the newest leaf below a message", async () => {
+        const conversation = await createConversation((await createUser()).id);
+        const root = await send(conversation.id, "root");
+        const original = await send(conversation.id, "original");
+        const reply = await send(conversation.id, "reply");
+        const edit = await send(conversation.id, "edit", root.id);
+
+        assert.deepEqual((await storage.getSiblings(original.id)).map(m => m.id), [original.id, edit.id]);
+        assert.deepEqual((await storage.getMessages(conversation.id)).map(m => m.id), [root.id, edit.id]);
+
+        const path = await storage.setActiveBranch(conversation.id, original.id);
+        assert.deepEqual(path.map(m => m.id), [root.id, original.id, reply.id]);
+        assert.deepEqual((await storage.getMessagePath(reply.id)).map(m => m.id), [root.id, original.id, reply.id]);
+        assert.equal((await storage.getConversation(conversation.id))?.activeMessageId, reply.id);
+        assert.deepEqual(await storage.setActiveBranch(conversation.id, "missing"), []);
+        assert.equal(await storage.getAllMessages(conversation.id).then(all => all.length), 4);
+      });
+
+      it("deletes everything below a message and makes it the leaf", async () => {
+        const conversation = await createConversation((await createUser()).id);
+        const first = await send(conversation.id, "first");
+        const second = await send(conversation.id, "second");
+        const third = await send(conversation.id, "third");
+        const branch = await send(conversation.id, "branch", first.id);
+
+        await storage.deleteMessagesAfter(first.id, conversation.id);
+
+        assert.equal(await storage.getMessage(second.id), undefined);
+        assert.equal(await storage.getMessage(third.id), undefined);
+        assert.equal(await storage.getMessage(branch.id), undefined);
+        assert.deepEqual((await storage.getMessages(conversation.id)).map(m => m.id), [first.id]);
+      });
+
+      it("deletes a message with its replies", async () => {
+        const conversation = await createConversation((await createUser()).id);
+        const first = await send(conversation.id, "first");
+        const second = await send(conversation.id, "second");
+        await storage.deleteMessage(first.id);
+
+        assert.equal(await storage.getMessage(second.id), undefined);
+        assert.equal((await storage.getConversation(conversation.id))?.activeMessageId, null);
+      });
+
+      it("edits, pins and toggles reactions", async () => {
+        const user = await createUser();
+        const conversation = await createConversation(user.id);
+        const message = await send(conversation.id, "hello");
+
+        const edited = await storage.updateMessage(message.id, { content: "hi" });
+        assert.equal(edited.content, "hi");
+        assert.ok(edited.editedAt);
+
+        assert.equal((await storage.pinMessage(message.id, true)).isPinned, "true");
+        assert.equal((await storage.pinMessage(message.id, false)).isPinned, "false");
+
+        const reaction = { emoji: "👍", userId: user.id };
+        assert.deepEqual((await storage.addReaction(message.id, reaction)).reactions, [reaction]);
+        assert.deepEqual((await storage.addReaction(message.id, reaction)).reactions, []);
+        await assert.rejects(storage.addReaction("missing", reaction), { name: "NotFoundError" });
+      });
+    });
+
+    describe("personas", () => {
+      const persona = { name: "Chef", description: "Cooks things", systemPrompt: "You are a chef.", avatar: null, model: null };
+
+      it("scopes personas to their owner", async () => {
+        const owner = await createUser();
+        const other = await createUser();
+        const created = await storage.createCustomPersona(persona, owner.id);
+
+        assert.equal(created.visibility, "private");
+        assert.equal(created.forkCount, 0);
+        assert.equal(await storage.getCustomPersona(created.id, other.id), undefined);
+        assert.equal((await storage.getCustomPersonaById(created.id))?.userId, owner.id);
+        assert.equal(await storage.updateCustomPersona(created.id, other.id, { name: "Stolen" }), undefined);
+        assert.equal((await storage.updateCustomPersona(created.id, owner.id, { name: "Baker" })).name, "Baker");
+
+        await storage.deleteCustomPersona(created.id, other.id);
+        assert.equal((await storage.getCustomPersonas(owner.id)).length, 1);
+        await storage.deleteCustomPersona(created.id, owner.id);
+        assert.deepEqual(await storage.getCustomPersonas(owner.id), []);
+      });
+
+      it("lists public personas in the gallery, most used first", async () => {
+        const author = await createUser("Grace");
+        const tag = `gallery${userCount}`;
+        const quiet = await storage.createCustomPersona({ ...persona, name: `${tag} quiet`, visibility: "public" }, author.id);
+        const forked = await storage.createCustomPersona({ ...persona, name: `${tag} forked`, visibility: "public" }, author.id);
+        const used = await storage.createCustomPersona({ ...persona, name: `${tag} used`, visibility: "public" }, author.id);
+        await storage.createCustomPersona({ ...persona, name: `${tag} hidden`, visibility: "unlisted" }, author.id);
+
+        await storage.incrementPersonaForkCount(forked.id);
+        const fork = await storage.createCustomPersona(persona, (await createUser()).id, forked.id);
+        assert.equal(fork.forkedFromId, forked.id);
+        for (let i = 0; i < 2; i++) {
+          await storage.createConversation({ title: "Chat", persona: used.id }, author.id);
+        }
+
+        const popular = await storage.getPersonaGallery({ query: tag.toUpperCase(), sort: "popular", limit: 10, offset: 0 });
+        assert.deepEqual(popular.map(p => p.id), [used.id, forked.id, quiet.id]);
+        assert.equal(popular[0].useCount, 2);
+        assert.equal(popular[0].authorName, "Grace");
+
+        const page = await storage.getPersonaGallery({ query: tag, sort: "popular", limit: 1, offset: 1 });
+        assert.deepEqual(page.map(p => p.id), [forked.id]);
+        assert.deepEqual(await storage.getPersonaGallery({ query: `${tag}%`, sort: "newest", limit: 10, offset: 0 }), []);
+      });
+    });
+
+    describe("prompt templates", () => {
+      const template = {
+        title: "Summary",
+        description: "",
+        category: "writing",
+        template: "Summarize {{text}}",
+        variables: [{ type: "string" as const, name: "text", required: true }],
+      };
+
+      it("records a version for every content change", async () => {
+        const owner = await createUser();
+        const created = await storage.createPromptTemplate(template, owner.id);
+        assert.equal(created.version, 1);
+
+        const renamed = await storage.updatePromptTemplate(created.id, owner.id, { title: "Short summary" });
+        assert.equal(renamed?.version, 1);
+        const changed = await storage.updatePromptTemplate(created.id, owner.id, { template: "Shorten {{text}}" });
+        assert.equal(changed?.version, 2);
+
+        assert.deepEqual((await storage.getPromptTemplateVersions(created.id)).map(v => v.version), [2, 1]);
+        assert.equal((await storage.getPromptTemplateVersion(created.id, 1))?.template, template.template);
+        assert.equal(await storage.getPromptTemplateVersion(created.id, 3), undefined);
+      });
+
+      it("keeps templates to their owner and lists public ones", async () => {
+        const owner = await createUser();
+        const other = await createUser();
+        const shared = await storage.createPromptTemplate({ ...template, visibility: "public" }, owner.id);
+        const own = await storage.createPromptTemplate(template, owner.id);
+
+        assert.equal(await storage.updatePromptTemplate(own.id, other.id, { title: "Mine now" }), undefined);
+        assert.deepEqual((await storage.getPromptTemplates(owner.id)).map(t => t.id).sort(), [shared.id, own.id].sort());
+        const publicIds = (await storage.getPublicPromptTemplates(100, 0)).map(t => t.id);
+        assert.ok(publicIds.includes(shared.id));
+        assert.ok(!publicIds.includes(own.id));
+
+        await storage.deletePromptTemplate(own.id, other.id);
+        assert.ok(await storage.getPromptTemplate(own.id));
+        await storage.deletePromptTemplate(own.id, owner.id);
+        assert.equal(await storage.getPromptTemplate(own.id), undefined);
+        assert.deepEqual(await storage.getPromptTemplateVersions(own.id), []);
+      });
+    });
+
+    describe("attachments and share links", () => {
+      it("looks up attachments by id and deletes only the owner's", async () => {
+        const owner = await createUser();
+        const file = { userId: owner.id, kind: "text" as const, fileName: "notes.txt", mimeType: "text/plain", size: 5, storageKey: "k" };
+        const first = await storage.createAttachment(file);
+        const second = await storage.createAttachment(file);
+
+        assert.deepEqual((await storage.getAttachments([first.id, second.id, "missing"])).map(a => a.id).sort(), [first.id, second.id].sort());
+        assert.deepEqual(await storage.getAttachments([]), []);
+
+        await storage.deleteAttachment(first.id, (await createUser()).id);
+        assert.ok(await storage.getAttachment(first.id));
+        await storage.deleteAttachment(first.id, owner.id);
+        assert.equal(await storage.getAttachment(first.id), undefined);
+      });
+
+      it("counts views and keeps the first revocation time", async () => {
+        const owner = await createUser();
+        const conversation = await createConversation(owner.id);
+        const link = await storage.createShareLink({
+          conversationId: conversation.id,
+          userId: owner.id,
+          title: "Chat",
+          persona: "general",
+          messages: [],
+        });
+
+        assert.ok(link.token.length >= 24);
+        assert.equal((await storage.getShareLinkByToken(link.token))?.id, link.id);
+        assert.equal((await storage.recordShareLinkView(link.id)).viewCount, 1);
+        assert.equal((await storage.recordShareLinkView(link.id)).viewCount, 2);
+
+        const revoked = await storage.revokeShareLink(link.id);
+        assert.ok(revoked.revokedAt);
+        await sleep(5);
+        assert.deepEqual((await storage.revokeShareLink(link.id)).revokedAt, revoked.revokedAt);
+        assert.deepEqual((await storage.getShareLinks(conversation.id)).map(l => l.id), [link.id]);
+        assert.equal((await storage.getShareLink(link.id))?.viewCount, 2);
+      });
+    });
+
+    describe("usage and rate limits", () => {
+      it("counts daily usage up to the limit", async () => {
+        const user = await createUser();
+        assert.equal(await storage.tryIncrementDailyUsage(user.id, "2024-03-01", 2), true);
+        assert.equal(await storage.tryIncrementDailyUsage(user.id, "2024-03-01", 2), true);
+        assert.equal(await storage.tryIncrementDailyUsage(user.id, "2024-03-01", 2), false);
+        assert.equal(await storage.getDailyUsage(user.id, "2024-03-01"), 2);
+
+        assert.equal(await storage.tryIncrementDailyUsage(user.id, "2024-03-01", null), true);
+        assert.equal(await storage.getDailyUsage(user.id, "2024-03-01"), 3);
+        assert.equal(await storage.tryIncrementDailyUsage(user.id, "2024-03-02", 0), false);
+        assert.equal(await storage.getDailyUsage(user.id, "2024-03-02"), 0);
+      });
+
+      it("counts hits per key within a window", async () => {
+        const key = `chat:user:${++userCount}`;
+        const hour = 60 * 60 * 1000;
+        const first = await storage.hitRateLimit(key, hour);
+        const second = await storage.hitRateLimit(key, hour);
+
+        assert.equal(first.count, 1);
+        assert.equal(second.count, 2);
+        assert.ok(second.resetAt.getTime() > Date.now());
+        assert.equal(second.resetAt.getTime() % hour, 0);
+
+        await storage.pruneRateLimits();
+        assert.equal((await storage.hitRateLimit(key, hour)).count, 3);
+      });
+    });
+
+    describe("auth", () => {
+      it("finds identities by provider and subject", async () => {
+        const user = await createUser();
+        const subject = `subject-${user.id}`;
+        await storage.createAuthIdentity({ userId: user.id, provider: "oidc", subject, email: user.email });
+
+        assert.equal((await storage.getAuthIdentity("oidc", subject))?.userId, user.id);
+        assert.equal(await storage.getAuthIdentity("replit", subject), undefined);
+        assert.deepEqual((await storage.getAuthIdentities(user.id)).map(i => i.subject), [subject]);
+      });
+
+      it("consumes tokens once, for their purpose, before they expire", async () => {
+        const user = await createUser();
+        const expiresAt = new Date(Date.now() + 60_000);
+        const hash = (name: string) => `${name}-${user.id}`;
+        await storage.createAuthToken({ tokenHash: hash("reset"), userId: user.id, purpose: "reset_password", expiresAt });
+        await storage.createAuthToken({ tokenHash: hash("older"), userId: user.id, purpose: "reset_password", expiresAt });
+        await storage.createAuthToken({ tokenHash: hash("verify"), userId: user.id, purpose: "verify_email", expiresAt });
+        await storage.createAuthToken({
+          tokenHash: hash("expired"), userId: user.id, purpose: "verify_email", expiresAt: new Date(Date.now() - 1000),
+        });
+
+        assert.equal(await storage.consumeAuthToken(hash("reset"), "verify_email"), undefined);
+        assert.equal((await storage.consumeAuthToken(hash("reset"), "reset_password"))?.userId, user.id);
+        assert.equal(await storage.consumeAuthToken(hash("reset"), "reset_password"), undefined);
+        // Using one reset link retires the user's other reset links, not other purposes
+        assert.equal(await storage.consumeAuthToken(hash("older"), "reset_password"), undefined);
+        assert.equal(await storage.consumeAuthToken(hash("expired"), "verify_email"), undefined);
+        assert.equal((await storage.consumeAuthToken(hash("verify"), "verify_email"))?.userId, user.id);
+      });
+
+      it("lists live API keys and stops changes once revoked", async () => {
+        const owner = await createUser();
+        const other = await createUser();
+        const key = await storage.createApiKey({ name: "CI", scopes: ["chat"] }, owner.id, "fizz_abc", `hash-${owner.id}`);
+
+        assert.equal(key.lastUsedAt, null);
+        assert.equal((await storage.getApiKeyByHash(`hash-${owner.id}`))?.id, key.id);
+        assert.equal(await storage.updateApiKey(key.id, other.id, { name: "Mine" }), undefined);
+        assert.equal((await storage.updateApiKey(key.id, owner.id, { name: "Deploys" }))?.name, "Deploys");
+
+        await storage.touchApiKey(key.id);
+        assert.ok((await storage.getApiKeyByHash(`hash-${owner.id}`))?.lastUsedAt);
+
+        assert.equal(await storage.revokeApiKey(key.id, other.id), undefined);
+        assert.ok((await storage.revokeApiKey(key.id, owner.id))?.revokedAt);
+        assert.equal(await storage.revokeApiKey(key.id, owner.id), undefined);
+        assert.equal(await storage.updateApiKey(key.id, owner.id, { name: "Again" }), undefined);
+        assert.deepEqual(await storage.getApiKeys(owner.id), []);
+      });
+    });
+
+    describe("search", () => {
+      it("finds the user's own messages and titles, best match first", async () => {
+        const user = await createUser();
+        const conversation = await createConversation(user.id, "Kiwi recipes");
+        const dense = await send(conversation.id, "kiwi kiwi");
+        const sparse = await send(conversation.id, "I bought a kiwi at the market today");
+        await send(conversation.id, "nothing to see here");
+        await send(await createConversation((await createUser()).id, "Kiwi").then(c => c.id), "kiwi");
+
+        const hits = await storage.search(user.id, "kiwi", {}, null, 10);
+        assert.deepEqual(hits.map(h => h.id).sort(), [conversation.id, dense.id, sparse.id].sort());
+        assert.ok(hits.findIndex(h => h.id === dense.id) < hits.findIndex(h => h.id === sparse.id));
+        for (let i = 1; i < hits.length; i++) assert.ok(hits[i - 1].rank >= hits[i].rank);
+
+        const title = hits.find(h => h.type === "conversation")!;
+        assert.equal(title.conversationTitle, "Kiwi recipes");
+        assert.equal(title.role, null);
+        assert.match(title.snippet, /<mark>Kiwi<\/mark>/);
+      });
+
+      it("escapes snippets and applies filters", async () => {
+        const user = await createUser();
+        const conversation = await createConversation(user.id, "Untitled");
+        const question = await send(conversation.id, "Is <b>mango</b> sweet?");
+        const answer = await storage.createMessage({ conversationId: conversation.id, role: "assistant", content: "Mango is sweet" });
+        await storage.pinMessage(answer.id, true);
+
+        const [hit] = await storage.search(user.id, "mango", { role: "user" }, null, 10);
+        assert.equal(hit.id, question.id);
+        // The only markup is the highlighting
+        assert.match(hit.snippet, /<mark>mango<\/mark>/i);
+        assert.doesNotMatch(hit.snippet, /<(?!\/?mark>)/);
+
+        assert.deepEqual((await storage.search(user.id, "mango", { pinned: true }, null, 10)).map(h => h.id), [answer.id]);
+        assert.deepEqual(await storage.search(user.id, "mango", { persona: "coder" }, null, 10), []);
+        assert.deepEqual(await storage.search(user.id, "mango", { from: new Date(Date.now() + 60_000) }, null, 10), []);
+        // "before" is exclusive
+        assert.deepEqual((await storage.search(user.id, "mango", { role: "user", before: new Date(Date.now() + 60_000) }, null, 10))
+          .map(h => h.id), [question.id]);
+        assert.deepEqual(await storage.search(user.id, "mango", { role: "user", before: question.createdAt }, null, 10), []);
+      });
+
+      it("pages through hits with the cursor", async () => {
+        const user = await createUser();
+        const conversation = await createConversation(user.id, "Untitled");
+        for (let i = 0; i < 5; i++) await send(conversation.id, `papaya number ${i}`);
+
+        const all = await storage.search(user.id, "papaya", {}, null, 10);
+        assert.equal(all.length, 5);
+
+        const paged: string[] = [];
+        let cursor = null;
+        for (let page = 0; page < 5; page++) {
+          const hits = await storage.search(user.id, "papaya", {}, cursor, 2);
+          paged.push(...hits.map(h => h.id));
+          if (hits.length < 2) break;
+          cursor = hits[hits.length - 1].cursor;
+        }
+        assert.deepEqual(paged, all.map(h => h.id));
+      });
+    });
+
+    describe("Stripe", () => {
+      it("reads products, prices and subscriptions", async () => {
+        assert.equal((await storage.getProduct("prod_plus"))?.name, "Plus");
+        assert.equal(await storage.getProduct("prod_missing"), null);
+        assert.deepEqual((await storage.listProducts()).map(p => p.id), ["prod_pro", "prod_plus"]);
+        assert.deepEqual((await storage.listProducts(false)).map(p => p.id), ["prod_legacy"]);
+        assert.deepEqual((await storage.listProducts(true, 1, 1)).map(p => p.id), ["prod_plus"]);
+
+        assert.equal((await storage.getPrice("price_plus"))?.unit_amount, 499);
+        assert.deepEqual((await storage.listPrices()).map(p => p.id), ["price_plus"]);
+        assert.equal((await storage.getSubscription("sub_fixture"))?.status, "active");
+        assert.equal(await storage.getSubscription("sub_missing"), null);
+      });
+    });
+  });
+}
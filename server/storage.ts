@@ -7,23 +7,100 @@ import {
   type UpsertUser,
   type CustomPersona,
   type InsertCustomPersona,
+  type ShareLink,
+  type InsertShareLink,
+  type UserPromptTemplate,
+  type InsertPromptTemplate,
+  type PromptTemplateVersion,
+  type Attachment,
+  type InsertAttachment,
+  type AuthIdentity,
+  type InsertAuthIdentity,
+  type AuthToken,
+  type AuthTokenPurpose,
+  type ApiKey,
+  type InsertApiKey,
   conversations,
   messages,
   users,
   customPersonas,
-} from "@shared/schema";
-import { drizzle } from "drizzle-orm/neon-http";
-import { neon } from "@neondatabase/serverless";
-import { eq, desc, asc, and } from "drizzle-orm";
-import { randomUUID } from "crypto";
+  usageCounters,
+  shareLinks,
+  userPromptTemplates,
+  promptTemplateVersions,
+  attachments,
+  rateLimits,
+  authIdentities,
+  authTokens,
+  apiKeys,
+} from "../shared/schema";
+import { eq, desc, asc, and, inArray, isNull, lt, sql, type SQL } from "drizzle-orm";
+import { randomBytes, randomUUID } from "crypto";
+import { defaultLeaf, latestLeaf, pathTo } from "./messageTree";
+import { NotFoundError } from "./errors";
+import { getDb, type Database } from "./db";
+import { MemStorage } from "./memStorage";
 
-const sqlClient = neon(process.env.DATABASE_URL!);
-const db = drizzle(sqlClient);
+export interface SearchFilters {
+  persona?: string;
+  role?: string;
+  pinned?: boolean;
+  from?: Date;
+  // Exclusive upper bound
+  before?: Date;
+}
+
+// Hits are ordered by rank, then newest first; the cursor is the last hit's place in that order.
+// createdAt is Postgres timestamp text, keeping the microseconds a Date would drop.
+export interface SearchCursor {
+  rank: number;
+  createdAt: string;
+  id: string;
+}
+
+export interface SearchHit {
+  type: "message" | "conversation";
+  // Message id for message hits, conversation id for title hits
+  id: string;
+  conversationId: string;
+  conversationTitle: string;
+  persona: string;
+  role: string | null;
+  isPinned: boolean | null;
+  // HTML-escaped text with matches wrapped in <mark>
+  snippet: string;
+  rank: number;
+  createdAt: Date;
+  cursor: SearchCursor;
+}
+
+export interface PersonaGalleryQuery {
+  query?: string;
+  // "popular": most forked and most chatted with first
+  sort: "popular" | "newest";
+  limit: number;
+  offset: number;
+}
+
+export interface GalleryPersona extends CustomPersona {
+  authorName: string | null;
+  // Conversations that use the persona, across all users
+  useCount: number;
+}
 
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
+  getUserByStripeCustomerId(customerId: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  // Emails match case-insensitively
+  getUserByEmail(email: string): Promise<User | undefined>;
+  createUser(user: UpsertUser): Promise<User>;
+  setUserPassword(userId: string, passwordHash: string): Promise<void>;
+  markEmailVerified(userId: string): Promise<void>;
+  // Starts an unconfirmed sign-up over: new password and name, no memory, and
+  // the verification links sent so far stop working. Undefined once confirmed.
+  restartSignUp(userId: string, signUp: { passwordHash: string; firstName?: string; lastName?: string }): Promise<User | undefined>;
   updateUserStripeInfo(userId: string, stripeInfo: { stripeCustomerId?: string; stripeSubscriptionId?: string | null }): Promise<User>;
   updateUserPlan(userId: string, plan: string): Promise<User>;
   updateUserMemory(userId: string, memory: string[]): Promise<User>;
@@ -32,13 +109,32 @@ export interface IStorage {
   // Conversations
   getConversations(userId: string): Promise<Conversation[]>;
   getConversation(id: string): Promise<Conversation | undefined>;
-  createConversation(conversation: InsertConversation, userId: string | null): Promise<Conversation>;
+  // createdAt is only set when importing conversations from elsewhere
+  createConversation(conversation: InsertConversation, userId: string | null, createdAt?: Date): Promise<Conversation>;
+  // A title set by the user locks it against automatic retitling
   updateConversationTitle(id: string, title: string): Promise<void>;
+  setConversationTitleLocked(id: string, locked: boolean): Promise<void>;
+  // Only applies while the title is unlocked; false means the user got there first
+  setGeneratedTitle(id: string, title: string): Promise<boolean>;
+  updateConversationSummary(id: string, summary: string | null, throughId: string | null): Promise<void>;
   deleteConversation(id: string, userId: string): Promise<void>;
+  // Creates the conversation and its messages as one branch, in order, all or nothing
+  importConversation(
+    conversation: InsertConversation,
+    userId: string,
+    createdAt: Date | undefined,
+    messages: Omit<InsertMessage, "conversationId" | "parentId">[],
+  ): Promise<Conversation>;
   
   // Messages
+  // Messages form a tree; getMessages returns the active branch, root first
   getMessages(conversationId: string): Promise<Message[]>;
+  getAllMessages(conversationId: string): Promise<Message[]>;
+  getMessagePath(messageId: string): Promise<Message[]>;
+  getSiblings(messageId: string): Promise<Message[]>;
+  setActiveBranch(conversationId: string, messageId: string): Promise<Message[]>;
   getMessage(id: string): Promise<Message | undefined>;
+  // Without a parentId the message continues the active branch; either way it becomes the active leaf
   createMessage(message: InsertMessage): Promise<Message>;
   updateMessage(id: string, updates: Partial<Message>): Promise<Message>;
   deleteMessage(id: string): Promise<void>;
@@ -49,10 +145,67 @@ export interface IStorage {
   // Custom Personas
   getCustomPersonas(userId: string): Promise<CustomPersona[]>;
   getCustomPersona(id: string, userId: string): Promise<CustomPersona | undefined>;
-  createCustomPersona(persona: InsertCustomPersona, userId: string): Promise<CustomPersona>;
+  // Not scoped to an owner; callers check ownership or visibility
+  getCustomPersonaById(id: string): Promise<CustomPersona | undefined>;
+  createCustomPersona(persona: InsertCustomPersona, userId: string, forkedFromId?: string): Promise<CustomPersona>;
   updateCustomPersona(id: string, userId: string, persona: Partial<InsertCustomPersona>): Promise<CustomPersona>;
   deleteCustomPersona(id: string, userId: string): Promise<void>;
+  incrementPersonaForkCount(id: string): Promise<void>;
+  getPersonaGallery(query: PersonaGalleryQuery): Promise<GalleryPersona[]>;
   
+  // Attachments
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  getAttachment(id: string): Promise<Attachment | undefined>;
+  getAttachments(ids: string[]): Promise<Attachment[]>;
+  deleteAttachment(id: string, userId: string): Promise<void>;
+
+  // Share links
+  getShareLinks(conversationId: string): Promise<ShareLink[]>;
+  getShareLink(id: string): Promise<ShareLink | undefined>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  revokeShareLink(id: string): Promise<ShareLink>;
+  recordShareLinkView(id: string): Promise<ShareLink>;
+
+  // Prompt templates (user-owned; built-ins live in shared/promptTemplates)
+  getPromptTemplates(userId: string): Promise<UserPromptTemplate[]>;
+  getPublicPromptTemplates(limit: number, offset: number): Promise<UserPromptTemplate[]>;
+  getPromptTemplate(id: string): Promise<UserPromptTemplate | undefined>;
+  createPromptTemplate(template: InsertPromptTemplate, userId: string): Promise<UserPromptTemplate>;
+  // Changing the template text or variables records a new version
+  updatePromptTemplate(id: string, userId: string, updates: Partial<InsertPromptTemplate>): Promise<UserPromptTemplate | undefined>;
+  deletePromptTemplate(id: string, userId: string): Promise<void>;
+  getPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]>;
+  getPromptTemplateVersion(templateId: string, version: number): Promise<PromptTemplateVersion | undefined>;
+
+  // Search (full-text, scoped to one user's conversations)
+  search(userId: string, query: string, filters: SearchFilters, cursor: SearchCursor | null, limit: number): Promise<SearchHit[]>;
+
+  // Usage (day is a UTC date, YYYY-MM-DD)
+  getDailyUsage(userId: string, day: string): Promise<number>;
+  // Atomically counts one message unless the user is already at the limit; false means over quota
+  tryIncrementDailyUsage(userId: string, day: string, limit: number | null): Promise<boolean>;
+
+  // Rate limits: counts one hit in the key's current fixed window
+  hitRateLimit(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }>;
+  pruneRateLimits(): Promise<void>;
+
+  // Sign-in identities linked to users, and mailed single-use tokens
+  getAuthIdentity(provider: string, subject: string): Promise<AuthIdentity | undefined>;
+  getAuthIdentities(userId: string): Promise<AuthIdentity[]>;
+  createAuthIdentity(identity: InsertAuthIdentity): Promise<AuthIdentity>;
+  createAuthToken(token: { tokenHash: string; userId: string; purpose: AuthTokenPurpose; expiresAt: Date }): Promise<void>;
+  // Deletes an unexpired token and returns it, along with the user's other tokens for the same purpose
+  consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined>;
+
+  // Personal API keys, looked up by the hash of the presented key
+  getApiKeys(userId: string): Promise<ApiKey[]>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(key: InsertApiKey, userId: string, prefix: string, keyHash: string): Promise<ApiKey>;
+  updateApiKey(id: string, userId: string, updates: Partial<InsertApiKey>): Promise<ApiKey | undefined>;
+  revokeApiKey(id: string, userId: string): Promise<ApiKey | undefined>;
+  touchApiKey(id: string): Promise<void>;
+
   // Stripe (queries from stripe.* schema)
   getProduct(productId: string): Promise<any>;
   listProducts(active?: boolean, limit?: number, offset?: number): Promise<any[]>;
@@ -62,14 +215,21 @@ export interface IStorage {
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
   // Users
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.stripeCustomerId, customerId));
     return user;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(userData)
       .onConflictDoUpdate({
@@ -86,6 +246,45 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(sql`lower(${users.email}) = lower(${email})`);
+    return user;
+  }
+
+  async createUser(userData: UpsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(userData).returning();
+    return user;
+  }
+
+  async setUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await this.db.update(users).set({ passwordHash, updatedAt: new Date() }).where(eq(users.id, userId));
+  }
+
+  async markEmailVerified(userId: string): Promise<void> {
+    await this.db.update(users)
+      .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.emailVerifiedAt)));
+  }
+
+  async restartSignUp(userId: string, signUp: { passwordHash: string; firstName?: string; lastName?: string }): Promise<User | undefined> {
+    return await this.db.transaction(async tx => {
+      const [user] = await tx.update(users)
+        .set({
+          passwordHash: signUp.passwordHash,
+          firstName: signUp.firstName ?? null,
+          lastName: signUp.lastName ?? null,
+          memory: [],
+          updatedAt: new Date(),
+        })
+        .where(and(eq(users.id, userId), isNull(users.emailVerifiedAt)))
+        .returning();
+      if (!user) return undefined;
+
+      await tx.delete(authTokens).where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, "verify_email")));
+      return user;
+    });
+  }
+
   async updateUserStripeInfo(userId: string, stripeInfo: { stripeCustomerId?: string; stripeSubscriptionId?: string | null }): Promise<User> {
     const updates: any = { updatedAt: new Date() };
     if (stripeInfo.stripeCustomerId !== undefined) {
@@ -95,7 +294,7 @@ export class DatabaseStorage implements IStorage {
       updates.stripeSubscriptionId = stripeInfo.stripeSubscriptionId;
     }
     
-    const [user] = await db
+    const [user] = await this.db
       .update(users)
       .set(updates)
       .where(eq(users.id, userId))
@@ -104,7 +303,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserPlan(userId: string, plan: string): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .update(users)
       .set({
         plan,
@@ -116,7 +315,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserMemory(userId: string, memory: string[]): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .update(users)
       .set({
         memory,
@@ -128,7 +327,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserPreferences(userId: string, preferences: Record<string, any>): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .update(users)
       .set({
         preferences,
@@ -141,58 +340,163 @@ export class DatabaseStorage implements IStorage {
 
   // Conversations
   async getConversations(userId: string): Promise<Conversation[]> {
-    return await db.select().from(conversations).where(eq(conversations.userId, userId)).orderBy(desc(conversations.createdAt));
+    return await this.db.select().from(conversations).where(eq(conversations.userId, userId)).orderBy(desc(conversations.createdAt));
   }
 
   async getConversation(id: string): Promise<Conversation | undefined> {
-    const result = await db.select().from(conversations).where(eq(conversations.id, id));
+    const result = await this.db.select().from(conversations).where(eq(conversations.id, id));
     return result[0];
   }
 
   async createConversation(
     insertConversation: InsertConversation,
-    userId: string | null
+    userId: string | null,
+    createdAt?: Date
   ): Promise<Conversation> {
     const id = randomUUID();
-    const result = await db.insert(conversations).values({
+    const result = await this.db.insert(conversations).values({
       ...insertConversation,
       id,
       userId,
+      createdAt,
     }).returning();
     return result[0];
   }
 
+  async importConversation(
+    insertConversation: InsertConversation,
+    userId: string,
+    createdAt: Date | undefined,
+    importedMessages: Omit<InsertMessage, "conversationId" | "parentId">[],
+  ): Promise<Conversation> {
+    const id = randomUUID();
+
+    // Each message is the previous one's child, so the import is the active branch
+    let parentId: string | null = null;
+    const rows = importedMessages.map(message => {
+      const row = { ...message, id: randomUUID(), conversationId: id, parentId };
+      parentId = row.id;
+      return row;
+    });
+
+    return await this.db.transaction(async tx => {
+      await tx.insert(conversations).values({ ...insertConversation, id, userId, createdAt });
+      // Batched to stay well under Postgres's limit on bind parameters
+      for (let i = 0; i < rows.length; i += 500) {
+        await tx.insert(messages).values(rows.slice(i, i + 500));
+      }
+
+      const [conversation] = await tx.update(conversations)
+        .set({ activeMessageId: parentId })
+        .where(eq(conversations.id, id))
+        .returning();
+      return conversation;
+    });
+  }
+
   async updateConversationTitle(id: string, title: string): Promise<void> {
-    await db.update(conversations).set({ title }).where(eq(conversations.id, id));
+    await this.db.update(conversations).set({ title, titleLocked: true }).where(eq(conversations.id, id));
+  }
+
+  async setConversationTitleLocked(id: string, locked: boolean): Promise<void> {
+    await this.db.update(conversations).set({ titleLocked: locked }).where(eq(conversations.id, id));
+  }
+
+  async setGeneratedTitle(id: string, title: string): Promise<boolean> {
+    const updated = await this.db.update(conversations)
+      .set({ title })
+      .where(and(eq(conversations.id, id), eq(conversations.titleLocked, false)))
+      .returning({ id: conversations.id });
+    return updated.length > 0;
+  }
+
+  async updateConversationSummary(id: string, summary: string | null, throughId: string | null): Promise<void> {
+    await this.db.update(conversations)
+      .set({ summary, summaryThroughId: throughId })
+      .where(eq(conversations.id, id));
   }
 
   async deleteConversation(id: string, userId: string): Promise<void> {
-    await db.delete(conversations).where(and(eq(conversations.id, id), eq(conversations.userId, userId)));
+    await this.db.delete(conversations).where(and(eq(conversations.id, id), eq(conversations.userId, userId)));
   }
 
   // Messages
   async getMessages(conversationId: string): Promise<Message[]> {
-    return await db.select().from(messages)
+    const conversation = await this.getConversation(conversationId);
+    if (!conversation) return [];
+
+    const allMessages = await this.getAllMessages(conversationId);
+    return pathTo(allMessages, conversation.activeMessageId ?? defaultLeaf(allMessages));
+  }
+
+  async getAllMessages(conversationId: string): Promise<Message[]> {
+    return await this.db.select().from(messages)
       .where(eq(messages.conversationId, conversationId))
       .orderBy(asc(messages.createdAt));
   }
 
+  async getMessagePath(messageId: string): Promise<Message[]> {
+    const message = await this.getMessage(messageId);
+    if (!message) return [];
+
+    const allMessages = await this.getAllMessages(message.conversationId);
+    return pathTo(allMessages, messageId);
+  }
+
+  async getSiblings(messageId: string): Promise<Message[]> {
+    const message = await this.getMessage(messageId);
+    if (!message) return [];
+
+    return await this.db.select().from(messages)
+      .where(and(
+        eq(messages.conversationId, message.conversationId),
+        message.parentId ? eq(messages.parentId, message.parentId) : isNull(messages.parentId)
+      ))
+      .orderBy(asc(messages.createdAt));
+  }
+
+  async setActiveBranch(conversationId: string, messageId: string): Promise<Message[]> {
+    const allMessages = await this.getAllMessages(conversationId);
+    if (!allMessages.some(m => m.id === messageId)) return [];
+
+    const leafId = latestLeaf(allMessages, messageId);
+    await this.db.update(conversations)
+      .set({ activeMessageId: leafId })
+      .where(eq(conversations.id, conversationId));
+    return pathTo(allMessages, leafId);
+  }
+
   async getMessage(id: string): Promise<Message | undefined> {
-    const result = await db.select().from(messages).where(eq(messages.id, id));
+    const result = await this.db.select().from(messages).where(eq(messages.id, id));
     return result[0];
   }
 
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
     const id = randomUUID();
-    const result = await db.insert(messages).values({
-      ...insertMessage,
-      id,
-    }).returning();
-    return result[0];
+
+    // The conversation row stays locked until the new leaf is recorded, so
+    // concurrent sends chain onto each other instead of forking the branch
+    return await this.db.transaction(async tx => {
+      const [conversation] = await tx.select({ activeMessageId: conversations.activeMessageId })
+        .from(conversations)
+        .where(eq(conversations.id, insertMessage.conversationId))
+        .for("update");
+
+      const result = await tx.insert(messages).values({
+        ...insertMessage,
+        id,
+        parentId: insertMessage.parentId === undefined ? conversation?.activeMessageId ?? null : insertMessage.parentId,
+      }).returning();
+
+      await tx.update(conversations)
+        .set({ activeMessageId: id })
+        .where(eq(conversations.id, insertMessage.conversationId));
+      return result[0];
+    });
   }
 
   async updateMessage(id: string, updates: Partial<Message>): Promise<Message> {
-    const [message] = await db.update(messages)
+    const [message] = await this.db.update(messages)
       .set({
         ...updates,
         editedAt: new Date(),
@@ -203,27 +507,26 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteMessage(id: string): Promise<void> {
-    await db.delete(messages).where(eq(messages.id, id));
+    await this.db.delete(messages).where(eq(messages.id, id));
   }
 
+  // Deletes every branch below the message (descendants cascade through parent_id)
+  // and makes it the active leaf
   async deleteMessagesAfter(messageId: string, conversationId: string): Promise<void> {
-    const message = await this.getMessage(messageId);
-    if (!message) return;
-    
-    const allMessages = await this.getMessages(conversationId);
-    const messageIndex = allMessages.findIndex(m => m.id === messageId);
-    
-    if (messageIndex === -1) return;
-    
-    const messagesToDelete = allMessages.slice(messageIndex + 1);
-    
-    for (const msg of messagesToDelete) {
-      await this.deleteMessage(msg.id);
-    }
+    await this.db.transaction(async tx => {
+      const [message] = await tx.select().from(messages).where(eq(messages.id, messageId));
+      if (!message || message.conversationId !== conversationId) return;
+
+      await tx.delete(messages)
+        .where(and(eq(messages.conversationId, conversationId), eq(messages.parentId, messageId)));
+      await tx.update(conversations)
+        .set({ activeMessageId: messageId })
+        .where(eq(conversations.id, conversationId));
+    });
   }
 
   async pinMessage(id: string, isPinned: boolean): Promise<Message> {
-    const [message] = await db.update(messages)
+    const [message] = await this.db.update(messages)
       .set({
         isPinned: isPinned ? "true" : "false",
       })
@@ -233,49 +536,52 @@ export class DatabaseStorage implements IStorage {
   }
 
   async addReaction(messageId: string, reaction: { emoji: string; userId: string }): Promise<Message> {
-    const message = await this.getMessage(messageId);
-    if (!message) throw new Error("Message not found");
-    
-    let currentReactions: any[] = [];
-    if (Array.isArray(message.reactions)) {
-      currentReactions = message.reactions;
-    } else if (typeof message.reactions === 'string') {
-      try {
-        const parsed = JSON.parse(message.reactions as string);
-        currentReactions = Array.isArray(parsed) ? parsed : [];
-      } catch {
-        currentReactions = [];
+    // Locking the row keeps simultaneous toggles from overwriting each other
+    return await this.db.transaction(async tx => {
+      const [message] = await tx.select().from(messages).where(eq(messages.id, messageId)).for("update");
+      if (!message) throw new NotFoundError("Message");
+
+      let currentReactions: any[] = [];
+      if (Array.isArray(message.reactions)) {
+        currentReactions = message.reactions;
+      } else if (typeof message.reactions === 'string') {
+        try {
+          const parsed = JSON.parse(message.reactions as string);
+          currentReactions = Array.isArray(parsed) ? parsed : [];
+        } catch {
+          currentReactions = [];
+        }
       }
-    }
-    
-    const existingIndex = currentReactions.findIndex(
-      r => r && r.emoji === reaction.emoji && r.userId === reaction.userId
-    );
-    
-    let newReactions;
-    if (existingIndex >= 0) {
-      newReactions = currentReactions.filter((_, i) => i !== existingIndex);
-    } else {
-      newReactions = [...currentReactions, reaction];
-    }
-    
-    const [updatedMessage] = await db.update(messages)
-      .set({ reactions: newReactions })
-      .where(eq(messages.id, messageId))
-      .returning();
-    
-    return updatedMessage;
+
+      const existingIndex = currentReactions.findIndex(
+        r => r && r.emoji === reaction.emoji && r.userId === reaction.userId
+      );
+
+      let newReactions;
+      if (existingIndex >= 0) {
+        newReactions = currentReactions.filter((_, i) => i !== existingIndex);
+      } else {
+        newReactions = [...currentReactions, reaction];
+      }
+
+      const [updatedMessage] = await tx.update(messages)
+        .set({ reactions: newReactions })
+        .where(eq(messages.id, messageId))
+        .returning();
+
+      return updatedMessage;
+    });
   }
 
   // Custom Personas
   async getCustomPersonas(userId: string): Promise<CustomPersona[]> {
-    return await db.select().from(customPersonas)
+    return await this.db.select().from(customPersonas)
       .where(eq(customPersonas.userId, userId))
       .orderBy(desc(customPersonas.createdAt));
   }
 
   async getCustomPersona(id: string, userId: string): Promise<CustomPersona | undefined> {
-    const [persona] = await db.select().from(customPersonas)
+    const [persona] = await this.db.select().from(customPersonas)
       .where(and(
         eq(customPersonas.id, id),
         eq(customPersonas.userId, userId)
@@ -283,18 +589,24 @@ export class DatabaseStorage implements IStorage {
     return persona;
   }
 
-  async createCustomPersona(insertPersona: InsertCustomPersona, userId: string): Promise<CustomPersona> {
+  async getCustomPersonaById(id: string): Promise<CustomPersona | undefined> {
+    const [persona] = await this.db.select().from(customPersonas).where(eq(customPersonas.id, id));
+    return persona;
+  }
+
+  async createCustomPersona(insertPersona: InsertCustomPersona, userId: string, forkedFromId?: string): Promise<CustomPersona> {
     const id = randomUUID();
-    const [persona] = await db.insert(customPersonas).values({
+    const [persona] = await this.db.insert(customPersonas).values({
       ...insertPersona,
       id,
       userId,
+      forkedFromId,
     }).returning();
     return persona;
   }
 
   async updateCustomPersona(id: string, userId: string, updates: Partial<InsertCustomPersona>): Promise<CustomPersona> {
-    const [persona] = await db.update(customPersonas)
+    const [persona] = await this.db.update(customPersonas)
       .set({
         ...updates,
         updatedAt: new Date(),
@@ -308,50 +620,430 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteCustomPersona(id: string, userId: string): Promise<void> {
-    await db.delete(customPersonas)
+    await this.db.delete(customPersonas)
       .where(and(
         eq(customPersonas.id, id),
         eq(customPersonas.userId, userId)
       ));
   }
 
+  // Search
+  async search(
+    userId: string,
+    query: string,
+    filters: SearchFilters,
+    cursor: SearchCursor | null,
+    limit: number
+  ): Promise<SearchHit[]> {
+    const tsquery = sql`websearch_to_tsquery('english', ${query})`;
+    // Escape before highlighting so snippets are safe to render as HTML
+    const headline = (column: SQL) => sql`ts_headline('english',
+      replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+      ${tsquery}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10')`;
+    const timestamp = (date: Date) => sql`${date.toISOString()}::timestamp`;
+
+    const messageConditions: SQL[] = [sql`c.user_id = ${userId}`, sql`m.search_vector @@ ${tsquery}`];
+    const titleConditions: SQL[] = [sql`c.user_id = ${userId}`, sql`c.search_vector @@ ${tsquery}`];
+    if (filters.persona) {
+      messageConditions.push(sql`c.persona = ${filters.persona}`);
+      titleConditions.push(sql`c.persona = ${filters.persona}`);
+    }
+    if (filters.role) messageConditions.push(sql`m.role = ${filters.role}`);
+    if (filters.pinned !== undefined) messageConditions.push(sql`m.is_pinned = ${filters.pinned ? "true" : "false"}`);
+    if (filters.from) {
+      messageConditions.push(sql`m.created_at >= ${timestamp(filters.from)}`);
+      titleConditions.push(sql`c.created_at >= ${timestamp(filters.from)}`);
+    }
+    if (filters.before) {
+      messageConditions.push(sql`m.created_at < ${timestamp(filters.before)}`);
+      titleConditions.push(sql`c.created_at < ${timestamp(filters.before)}`);
+    }
+
+    const messageHits = sql`
+      SELECT 'message' AS type, m.id, m.conversation_id, c.title AS conversation_title, c.persona,
+        m.role, m.is_pinned = 'true' AS is_pinned, ${headline(sql`m.content`)} AS snippet,
+        ts_rank(m.search_vector, ${tsquery}) AS rank, m.created_at
+      FROM messages m JOIN conversations c ON c.id = m.conversation_id
+      WHERE ${sql.join(messageConditions, sql` AND `)}`;
+
+    // Titles have no role or pin, so those filters rule title hits out
+    const includeTitles = !filters.role && filters.pinned === undefined;
+    const titleHits = sql`
+      SELECT 'conversation' AS type, c.id, c.id AS conversation_id, c.title AS conversation_title, c.persona,
+        NULL AS role, NULL AS is_pinned, ${headline(sql`c.title`)} AS snippet,
+        ts_rank(c.search_vector, ${tsquery}) AS rank, c.created_at
+      FROM conversations c
+      WHERE ${sql.join(titleConditions, sql` AND `)}`;
+
+    const after = cursor
+      ? sql`WHERE (hits.rank, hits.created_at, hits.id) < (${cursor.rank}::real, ${cursor.createdAt}::timestamp, ${cursor.id})`
+      : sql``;
+
+    const result = await this.db.execute(sql`
+      SELECT hits.*,
+        hits.created_at AT TIME ZONE 'UTC' AS created_at_utc,
+        to_char(hits.created_at, 'YYYY-MM-DD"T"HH24:MI:SS.US') AS position
+      FROM (${includeTitles ? sql`${messageHits} UNION ALL ${titleHits}` : messageHits}) AS hits
+      ${after}
+      ORDER BY hits.rank DESC, hits.created_at DESC, hits.id DESC
+      LIMIT ${limit}`);
+
+    return result.rows.map((row: any) => ({
+      type: row.type,
+      id: row.id,
+      conversationId: row.conversation_id,
+      conversationTitle: row.conversation_title,
+      persona: row.persona,
+      role: row.role,
+      isPinned: row.is_pinned,
+      snippet: row.snippet,
+      rank: Number(row.rank),
+      createdAt: new Date(row.created_at_utc),
+      cursor: { rank: Number(row.rank), createdAt: row.position, id: row.id },
+    }));
+  }
+
+  async incrementPersonaForkCount(id: string): Promise<void> {
+    await this.db.update(customPersonas)
+      .set({ forkCount: sql`${customPersonas.forkCount} + 1` })
+      .where(eq(customPersonas.id, id));
+  }
+
+  async getPersonaGallery({ query, sort, limit, offset }: PersonaGalleryQuery): Promise<GalleryPersona[]> {
+    const useCount = sql<number>`(SELECT count(*) FROM ${conversations} WHERE ${conversations.persona} = ${customPersonas.id})::int`;
+    const conditions: SQL[] = [eq(customPersonas.visibility, "public")];
+    if (query) {
+      const pattern = `%${query.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(sql`(${customPersonas.name} ILIKE ${pattern} OR ${customPersonas.description} ILIKE ${pattern})`);
+    }
+
+    const rows = await this.db.select({ persona: customPersonas, authorName: users.firstName, useCount })
+      .from(customPersonas)
+      .leftJoin(users, eq(users.id, customPersonas.userId))
+      .where(and(...conditions))
+      .orderBy(...(sort === "popular"
+        ? [desc(sql`${customPersonas.forkCount} + ${useCount}`), desc(customPersonas.createdAt)]
+        : [desc(customPersonas.createdAt)]))
+      .limit(limit)
+      .offset(offset);
+
+    return rows.map(row => ({ ...row.persona, authorName: row.authorName, useCount: row.useCount }));
+  }
+
+  // Prompt templates
+  async getPromptTemplates(userId: string): Promise<UserPromptTemplate[]> {
+    return await this.db.select().from(userPromptTemplates)
+      .where(eq(userPromptTemplates.userId, userId))
+      .orderBy(desc(userPromptTemplates.updatedAt));
+  }
+
+  async getPublicPromptTemplates(limit: number, offset: number): Promise<UserPromptTemplate[]> {
+    return await this.db.select().from(userPromptTemplates)
+      .where(eq(userPromptTemplates.visibility, "public"))
+      .orderBy(desc(userPromptTemplates.updatedAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getPromptTemplate(id: string): Promise<UserPromptTemplate | undefined> {
+    const [template] = await this.db.select().from(userPromptTemplates).where(eq(userPromptTemplates.id, id));
+    return template;
+  }
+
+  async createPromptTemplate(insertTemplate: InsertPromptTemplate, userId: string): Promise<UserPromptTemplate> {
+    const id = randomUUID();
+    return await this.db.transaction(async tx => {
+      const [template] = await tx.insert(userPromptTemplates).values({
+        ...insertTemplate,
+        id,
+        userId,
+      }).returning();
+
+      await tx.insert(promptTemplateVersions).values({
+        templateId: id,
+        version: template.version,
+        template: template.template,
+        variables: template.variables,
+      });
+      return template;
+    });
+  }
+
+  async updatePromptTemplate(
+    id: string,
+    userId: string,
+    updates: Partial<InsertPromptTemplate>
+  ): Promise<UserPromptTemplate | undefined> {
+    // Locked so two concurrent edits can't both claim the next version number
+    return await this.db.transaction(async tx => {
+      const [current] = await tx.select().from(userPromptTemplates).where(eq(userPromptTemplates.id, id)).for("update");
+      if (!current || current.userId !== userId) return undefined;
+
+      const contentChanged =
+        (updates.template !== undefined && updates.template !== current.template) ||
+        (updates.variables !== undefined && JSON.stringify(updates.variables) !== JSON.stringify(current.variables));
+
+      const [template] = await tx.update(userPromptTemplates)
+        .set({
+          ...updates,
+          version: contentChanged ? current.version + 1 : current.version,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(userPromptTemplates.id, id), eq(userPromptTemplates.userId, userId)))
+        .returning();
+
+      if (contentChanged) {
+        await tx.insert(promptTemplateVersions).values({
+          templateId: id,
+          version: template.version,
+          template: template.template,
+          variables: template.variables,
+        });
+      }
+      return template;
+    });
+  }
+
+  async deletePromptTemplate(id: string, userId: string): Promise<void> {
+    await this.db.delete(userPromptTemplates)
+      .where(and(eq(userPromptTemplates.id, id), eq(userPromptTemplates.userId, userId)));
+  }
+
+  async getPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+    return await this.db.select().from(promptTemplateVersions)
+      .where(eq(promptTemplateVersions.templateId, templateId))
+      .orderBy(desc(promptTemplateVersions.version));
+  }
+
+  async getPromptTemplateVersion(templateId: string, version: number): Promise<PromptTemplateVersion | undefined> {
+    const [row] = await this.db.select().from(promptTemplateVersions)
+      .where(and(eq(promptTemplateVersions.templateId, templateId), eq(promptTemplateVersions.version, version)));
+    return row;
+  }
+
+  // Attachments
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const [attachment] = await this.db.insert(attachments).values({
+      ...insertAttachment,
+      id: randomUUID(),
+    }).returning();
+    return attachment;
+  }
+
+  async getAttachment(id: string): Promise<Attachment | undefined> {
+    const [attachment] = await this.db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment;
+  }
+
+  async getAttachments(ids: string[]): Promise<Attachment[]> {
+    if (ids.length === 0) return [];
+    return await this.db.select().from(attachments).where(inArray(attachments.id, ids));
+  }
+
+  async deleteAttachment(id: string, userId: string): Promise<void> {
+    await this.db.delete(attachments).where(and(eq(attachments.id, id), eq(attachments.userId, userId)));
+  }
+
+  // Share links
+  async getShareLinks(conversationId: string): Promise<ShareLink[]> {
+    return await this.db.select().from(shareLinks)
+      .where(eq(shareLinks.conversationId, conversationId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    const [link] = await this.db.select().from(shareLinks).where(eq(shareLinks.id, id));
+    return link;
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await this.db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    return link;
+  }
+
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    const [created] = await this.db.insert(shareLinks).values({
+      ...link,
+      id: randomUUID(),
+      // 144 random bits, URL-safe
+      token: randomBytes(18).toString("base64url"),
+    }).returning();
+    return created;
+  }
+
+  async revokeShareLink(id: string): Promise<ShareLink> {
+    const [link] = await this.db.update(shareLinks)
+      .set({ revokedAt: sql`coalesce(${shareLinks.revokedAt}, now())` })
+      .where(eq(shareLinks.id, id))
+      .returning();
+    return link;
+  }
+
+  async recordShareLinkView(id: string): Promise<ShareLink> {
+    const [link] = await this.db.update(shareLinks)
+      .set({ viewCount: sql`${shareLinks.viewCount} + 1` })
+      .where(eq(shareLinks.id, id))
+      .returning();
+    return link;
+  }
+
+  // Usage
+  async getDailyUsage(userId: string, day: string): Promise<number> {
+    const [counter] = await this.db.select().from(usageCounters)
+      .where(and(eq(usageCounters.userId, userId), eq(usageCounters.day, day)));
+    return counter?.messages ?? 0;
+  }
+
+  async tryIncrementDailyUsage(userId: string, day: string, limit: number | null): Promise<boolean> {
+    if (limit !== null && limit <= 0) return false;
+
+    // The conditional upsert makes check-and-increment a single statement,
+    // so concurrent requests can't overshoot the limit
+    const [counter] = await this.db.insert(usageCounters)
+      .values({ userId, day, messages: 1 })
+      .onConflictDoUpdate({
+        target: [usageCounters.userId, usageCounters.day],
+        set: { messages: sql`${usageCounters.messages} + 1` },
+        setWhere: limit === null ? undefined : sql`${usageCounters.messages} < ${limit}`,
+      })
+      .returning();
+    return counter !== undefined;
+  }
+
+  // Rate limits
+  async hitRateLimit(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }> {
+    const windowStart = sql`(floor(extract(epoch from now()) * 1000 / ${windowMs}::numeric) * ${windowMs}::numeric)::bigint`;
+
+    // One statement per hit: a new window resets the count, the same window increments it
+    const [row] = await this.db.insert(rateLimits)
+      .values({ key, windowStart, expiresAt: sql`${windowStart} + ${windowMs}::bigint`, count: 1 })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${rateLimits.windowStart} = excluded.window_start THEN ${rateLimits.count} + 1 ELSE 1 END`,
+          windowStart: sql`excluded.window_start`,
+          expiresAt: sql`excluded.expires_at`,
+        },
+      })
+      .returning({ count: rateLimits.count, expiresAt: rateLimits.expiresAt });
+    return { count: row.count, resetAt: new Date(row.expiresAt) };
+  }
+
+  async pruneRateLimits(): Promise<void> {
+    await this.db.delete(rateLimits).where(lt(rateLimits.expiresAt, sql`(extract(epoch from now()) * 1000)::bigint`));
+  }
+
+  // Auth identities and tokens
+  async getAuthIdentity(provider: string, subject: string): Promise<AuthIdentity | undefined> {
+    const [identity] = await this.db.select().from(authIdentities)
+      .where(and(eq(authIdentities.provider, provider), eq(authIdentities.subject, subject)));
+    return identity;
+  }
+
+  async getAuthIdentities(userId: string): Promise<AuthIdentity[]> {
+    return await this.db.select().from(authIdentities)
+      .where(eq(authIdentities.userId, userId))
+      .orderBy(asc(authIdentities.createdAt));
+  }
+
+  async createAuthIdentity(identity: InsertAuthIdentity): Promise<AuthIdentity> {
+    const [created] = await this.db.insert(authIdentities).values(identity).returning();
+    return created;
+  }
+
+  async createAuthToken(token: { tokenHash: string; userId: string; purpose: AuthTokenPurpose; expiresAt: Date }): Promise<void> {
+    await this.db.insert(authTokens).values(token);
+  }
+
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    const [token] = await this.db.delete(authTokens)
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        sql`${authTokens.expiresAt} > now()`,
+      ))
+      .returning();
+    if (token) {
+      await this.db.delete(authTokens).where(and(eq(authTokens.userId, token.userId), eq(authTokens.purpose, purpose)));
+    }
+    return token;
+  }
+
+  // API keys
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    return await this.db.select().from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await this.db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return key;
+  }
+
+  async createApiKey(key: InsertApiKey, userId: string, prefix: string, keyHash: string): Promise<ApiKey> {
+    const [created] = await this.db.insert(apiKeys).values({ ...key, userId, prefix, keyHash }).returning();
+    return created;
+  }
+
+  async updateApiKey(id: string, userId: string, updates: Partial<InsertApiKey>): Promise<ApiKey | undefined> {
+    const [key] = await this.db.update(apiKeys)
+      .set(updates)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning();
+    return key;
+  }
+
+  async revokeApiKey(id: string, userId: string): Promise<ApiKey | undefined> {
+    const [key] = await this.db.update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning();
+    return key;
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    await this.db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
+  }
+
   // Stripe (queries from stripe.* schema created by stripe-replit-sync)
   async getProduct(productId: string): Promise<any> {
-    const result = await sqlClient(
-      `SELECT * FROM stripe.products WHERE id = $1`, [productId]
-    );
-    return result[0] || null;
+    const result = await this.db.execute(sql`SELECT * FROM stripe.products WHERE id = ${productId}`);
+    return result.rows[0] || null;
   }
 
   async listProducts(active = true, limit = 20, offset = 0): Promise<any[]> {
-    const result = await sqlClient(
-      `SELECT * FROM stripe.products WHERE active = $1 ORDER BY created DESC LIMIT $2 OFFSET $3`,
-      [active, limit, offset]
+    const result = await this.db.execute(
+      sql`SELECT * FROM stripe.products WHERE active = ${active} ORDER BY created DESC LIMIT ${limit} OFFSET ${offset}`
     );
-    return result;
+    return result.rows;
   }
 
   async getPrice(priceId: string): Promise<any> {
-    const result = await sqlClient(
-      `SELECT * FROM stripe.prices WHERE id = $1`, [priceId]
-    );
-    return result[0] || null;
+    const result = await this.db.execute(sql`SELECT * FROM stripe.prices WHERE id = ${priceId}`);
+    return result.rows[0] || null;
   }
 
   async listPrices(active = true, limit = 20, offset = 0): Promise<any[]> {
-    const result = await sqlClient(
-      `SELECT * FROM stripe.prices WHERE active = $1 ORDER BY created DESC LIMIT $2 OFFSET $3`,
-      [active, limit, offset]
+    const result = await this.db.execute(
+      sql`SELECT * FROM stripe.prices WHERE active = ${active} ORDER BY created DESC LIMIT ${limit} OFFSET ${offset}`
     );
-    return result;
+    return result.rows;
   }
 
   async getSubscription(subscriptionId: string): Promise<any> {
-    const result = await sqlClient(
-      `SELECT * FROM stripe.subscriptions WHERE id = $1`, [subscriptionId]
-    );
-    return result[0] || null;
+    const result = await this.db.execute(sql`SELECT * FROM stripe.subscriptions WHERE id = ${subscriptionId}`);
+    return result.rows[0] || null;
   }
 }
 
-export const storage = new DatabaseStorage();
+// Storage backend
+//
+//   STORAGE   "postgres" (default; see db.ts for the connection) or "memory"
+//             (single process, nothing persisted; offline development and tests)
+function createStorage(): IStorage {
+  if (process.env.STORAGE === "memory") return new MemStorage();
+  return new DatabaseStorage(getDb());
+}
+
+export const storage = createStorage();
@@ -1,4 +1,5 @@
 import Stripe from 'stripe';
+import { logger } from './logger';
 
 let connectionSettings: any;
 
@@ -15,11 +16,11 @@ async function getCredentials() {
     const publishableIsActuallySecret = publishableKey.startsWith('sk_');
     
     if (secretIsActuallyPublishable && publishableIsActuallySecret) {
-      console.warn('⚠️  Stripe keys are swapped in environment - auto-correcting');
+      logger.warn('Stripe keys are swapped in environment - auto-correcting');
       [secretKey, publishableKey] = [publishableKey, secretKey];
     }
     
-    console.log('Using Stripe keys from environment:', {
+    logger.info('Using Stripe keys from environment', {
       secretKeyPrefix: secretKey?.substring(0, 8),
       publishableKeyPrefix: publishableKey?.substring(0, 8),
       isTestMode: secretKey?.startsWith('sk_test_')
@@ -79,6 +80,19 @@ async function getCredentials() {
   };
 }
 
+// STRIPE_API_BASE points the client at another API server, e.g. stripe-mock
+// (http://localhost:12111) or a test fake; unset, it talks to api.stripe.com
+function apiServerConfig(): Stripe.StripeConfig {
+  const base = process.env.STRIPE_API_BASE;
+  if (!base) return {};
+  const url = new URL(base);
+  return {
+    host: url.hostname,
+    port: url.port || undefined,
+    protocol: url.protocol === 'http:' ? 'http' : 'https',
+  };
+}
+
 // WARNING: Never cache this client.
 // Always call this function again to get a fresh client.
 // Use getUncachableStripeClient() for server-side operations with secret key
@@ -88,6 +102,7 @@ export async function getUncachableStripeClient() {
   return new Stripe(secretKey, {
     // Note that this is the latest API version, don't change it to a old version of the API.
     apiVersion: '2025-10-29.clover',
+    ...apiServerConfig(),
   });
 }
 
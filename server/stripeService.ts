@@ -15,14 +15,16 @@ export class StripeService {
     });
   }
 
-  // Create checkout session
-  async createCheckoutSession(customerId: string, priceId: string, successUrl: string, cancelUrl: string) {
+  // Create checkout session (userId lets the webhook find the user before the customer is linked)
+  async createCheckoutSession(customerId: string, priceId: string, successUrl: string, cancelUrl: string, userId?: string) {
     const stripe = await getUncachableStripeClient();
     return await stripe.checkout.sessions.create({
       customer: customerId,
+      client_reference_id: userId,
       payment_method_types: ['card'],
       line_items: [{ price: priceId, quantity: 1 }],
       mode: 'subscription',
+      subscription_data: userId ? { metadata: { userId } } : undefined,
       success_url: successUrl,
       cancel_url: cancelUrl,
     });
@@ -45,6 +47,10 @@ export class StripeService {
   async getSubscription(subscriptionId: string) {
     return await storage.getSubscription(subscriptionId);
   }
+
+  async getPrice(priceId: string) {
+    return await storage.getPrice(priceId);
+  }
 }
 
 export const stripeService = new StripeService();
@@ -0,0 +1,54 @@
+import { DEFAULT_CONVERSATION_TITLE, type Conversation, type Message } from "../shared/schema";
+import { storage } from "./storage";
+import { logger } from "./logger";
+import type { ChatMessage, LLMProvider } from "./llm";
+
+const MAX_TITLE_LENGTH = 200;
+
+// Titles clients used before the server generated them, plus our own default
+const PLACEHOLDER_TITLES = /^(new (chat|conversation)|untitled( (chat|conversation))?|imported chat|chat|conversation)( \d+)?$/i;
+
+export function isPlaceholderTitle(title: string): boolean {
+  const trimmed = title.trim();
+  return trimmed === "" || trimmed === DEFAULT_CONVERSATION_TITLE || PLACEHOLDER_TITLES.test(trimmed);
+}
+
+// Automatic titling only touches unlocked conversations that still have a placeholder
+export function needsTitle(conversation: Conversation): boolean {
+  return !conversation.titleLocked && isPlaceholderTitle(conversation.title);
+}
+
+function titleSource(messages: Message[]): ChatMessage[] {
+  return messages
+    .filter(m => (m.role === "user" || m.role === "assistant") && m.content)
+    .slice(0, 4)
+    .map(m => ({ role: m.role as ChatMessage["role"], content: m.content }));
+}
+
+/**
+ * Generates a title from the start of the active branch and stores it unless
+ * the user renamed the conversation meanwhile. Returns the stored title, or
+ * null when there was nothing to title or the title is locked.
+ */
+export async function generateConversationTitle(
+  conversation: Conversation,
+  provider: LLMProvider,
+  messages?: Message[],
+): Promise<string | null> {
+  const source = titleSource(messages ?? await storage.getMessages(conversation.id));
+  if (!source.some(m => m.role === "user")) return null;
+
+  const title = (await provider.generateTitle(source)).replace(/\s+/g, " ").trim().slice(0, MAX_TITLE_LENGTH);
+  if (!title) return null;
+
+  return await storage.setGeneratedTitle(conversation.id, title) ? title : null;
+}
+
+// Runs titling in the background after the first exchange; failures are only logged
+export function scheduleTitleGeneration(conversation: Conversation, provider: LLMProvider) {
+  setImmediate(() => {
+    generateConversationTitle(conversation, provider).catch(error => {
+      logger.error("Title generation failed", { conversationId: conversation.id, error });
+    });
+  });
+}
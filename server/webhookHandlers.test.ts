@@ -0,0 +1,165 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import Stripe from "stripe";
+import { WebhookHandlers } from "./webhookHandlers";
+import { storage } from "./storage";
+
+// Runs against the in-memory backend (npm test sets STORAGE=memory) and a fake
+// Stripe API that serves the subscriptions the handlers re-fetch
+const WEBHOOK_SECRET = "whsec_test_fixture";
+const PLUS_PRICE = "price_test_plus";
+const PRO_PRICE = "price_test_pro";
+
+process.env.STRIPE_SECRET_KEY = "sk_test_fixture";
+process.env.VITE_STRIPE_PUBLIC_KEY = "pk_test_fixture";
+process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+process.env.STRIPE_PRICE_PLUS_TEST = PLUS_PRICE;
+process.env.STRIPE_PRICE_PRO_TEST = PRO_PRICE;
+
+// What the fake API returns for GET /v1/subscriptions/:id, i.e. Stripe's current state
+const stripeSubscriptions = new Map<string, Stripe.Subscription>();
+
+let fakeStripe: Server;
+let eventCount = 0;
+
+function subscription(id: string, customer: string, status: Stripe.Subscription.Status, priceId: string, userId?: string) {
+  return {
+    id,
+    object: "subscription",
+    customer,
+    status,
+    metadata: userId ? { userId } : {},
+    items: { object: "list", data: [{ id: `si_${id}`, object: "subscription_item", price: { id: priceId, object: "price" } }] },
+  } as unknown as Stripe.Subscription;
+}
+
+function event(type: string, object: unknown) {
+  return { id: `evt_${++eventCount}`, object: "event", type, created: Math.floor(Date.now() / 1000), data: { object } };
+}
+
+function sign(payload: string, secret = WEBHOOK_SECRET): string {
+  return new Stripe("sk_test_fixture").webhooks.generateTestHeaderString({ payload, secret });
+}
+
+// Signs the event with the test secret and hands it to the webhook entry point
+async function deliver(evt: unknown, secret?: string) {
+  const payload = JSON.stringify(evt);
+  await WebhookHandlers.processWebhook(Buffer.from(payload), sign(payload, secret));
+}
+
+// Stripe now holds `sub` (created, changed or canceled) and sends `type` for it
+async function subscriptionEvent(type: string, sub: Stripe.Subscription) {
+  stripeSubscriptions.set(sub.id, sub);
+  await deliver(event(type, sub));
+}
+
+async function createCustomer() {
+  const user = await storage.createUser({ email: `user${++eventCount}@example.com` });
+  return { userId: user.id, customerId: `cus_${user.id}`, subscriptionId: `sub_${user.id}` };
+}
+
+async function userState(userId: string) {
+  const user = await storage.getUser(userId);
+  return { plan: user?.plan, subscriptionId: user?.stripeSubscriptionId ?? null };
+}
+
+describe("Stripe webhooks", () => {
+  before(async () => {
+    fakeStripe = createServer((req, res) => {
+      const match = req.url?.match(/^\/v1\/subscriptions\/([^/?]+)/);
+      const found = match && stripeSubscriptions.get(match[1]);
+      res.setHeader("Content-Type", "application/json");
+      if (req.method === "GET" && found) {
+        res.end(JSON.stringify(found));
+      } else {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ error: { type: "invalid_request_error", message: "No such object" } }));
+      }
+    });
+    await new Promise<void>(resolve => fakeStripe.listen(0, "127.0.0.1", resolve));
+    process.env.STRIPE_API_BASE = `http://127.0.0.1:${(fakeStripe.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    fakeStripe.close();
+  });
+
+  it("grants the plan when a subscription is created", async () => {
+    const { userId, customerId, subscriptionId } = await createCustomer();
+    await subscriptionEvent("customer.subscription.created", subscription(subscriptionId, customerId, "active", PLUS_PRICE, userId));
+
+    assert.deepEqual(await userState(userId), { plan: "plus", subscriptionId });
+    assert.equal((await storage.getUser(userId))?.stripeCustomerId, customerId);
+  });
+
+  it("follows price changes on update", async () => {
+    const { userId, customerId, subscriptionId } = await createCustomer();
+    await subscriptionEvent("customer.subscription.created", subscription(subscriptionId, customerId, "active", PLUS_PRICE, userId));
+    await subscriptionEvent("customer.subscription.updated", subscription(subscriptionId, customerId, "active", PRO_PRICE, userId));
+
+    assert.deepEqual(await userState(userId), { plan: "pro", subscriptionId });
+  });
+
+  it("keeps the plan while a payment is past due", async () => {
+    const { userId, customerId, subscriptionId } = await createCustomer();
+    await subscriptionEvent("customer.subscription.created", subscription(subscriptionId, customerId, "active", PLUS_PRICE, userId));
+    await subscriptionEvent("customer.subscription.updated", subscription(subscriptionId, customerId, "past_due", PLUS_PRICE, userId));
+
+    assert.deepEqual(await userState(userId), { plan: "plus", subscriptionId });
+  });
+
+  it("falls back to free when a subscription is canceled", async () => {
+    const { userId, customerId, subscriptionId } = await createCustomer();
+    await subscriptionEvent("customer.subscription.created", subscription(subscriptionId, customerId, "active", PRO_PRICE, userId));
+    await subscriptionEvent("customer.subscription.updated", subscription(subscriptionId, customerId, "canceled", PRO_PRICE, userId));
+
+    assert.deepEqual(await userState(userId), { plan: "free", subscriptionId: null });
+  });
+
+  it("falls back to free when a subscription is deleted", async () => {
+    const { userId, customerId, subscriptionId } = await createCustomer();
+    await subscriptionEvent("customer.subscription.created", subscription(subscriptionId, customerId, "active", PLUS_PRICE, userId));
+    await subscriptionEvent("customer.subscription.deleted", subscription(subscriptionId, customerId, "canceled", PLUS_PRICE, userId));
+
+    assert.deepEqual(await userState(userId), { plan: "free", subscriptionId: null });
+  });
+
+  it("ignores an update that arrives after the deletion", async () => {
+    const { userId, customerId, subscriptionId } = await createCustomer();
+    const active = subscription(subscriptionId, customerId, "active", PLUS_PRICE, userId);
+    await subscriptionEvent("customer.subscription.created", active);
+    await subscriptionEvent("customer.subscription.deleted", subscription(subscriptionId, customerId, "canceled", PLUS_PRICE, userId));
+
+    // The stale payload still says active; Stripe says canceled
+    await deliver(event("customer.subscription.updated", active));
+
+    assert.deepEqual(await userState(userId), { plan: "free", subscriptionId: null });
+  });
+
+  it("grants the plan on checkout.session.completed", async () => {
+    const { userId, customerId, subscriptionId } = await createCustomer();
+    stripeSubscriptions.set(subscriptionId, subscription(subscriptionId, customerId, "active", PRO_PRICE));
+    await deliver(event("checkout.session.completed", {
+      id: `cs_${userId}`,
+      object: "checkout.session",
+      mode: "subscription",
+      customer: customerId,
+      subscription: subscriptionId,
+      client_reference_id: userId,
+      metadata: {},
+    }));
+
+    assert.deepEqual(await userState(userId), { plan: "pro", subscriptionId });
+    assert.equal((await storage.getUser(userId))?.stripeCustomerId, customerId);
+  });
+
+  it("rejects events signed with another secret", async () => {
+    const { userId, customerId, subscriptionId } = await createCustomer();
+    stripeSubscriptions.set(subscriptionId, subscription(subscriptionId, customerId, "active", PRO_PRICE, userId));
+
+    await assert.rejects(deliver(event("customer.subscription.created", stripeSubscriptions.get(subscriptionId)), "whsec_other"));
+    assert.deepEqual(await userState(userId), { plan: "free", subscriptionId: null });
+  });
+});
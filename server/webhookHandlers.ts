@@ -1,5 +1,10 @@
+import type Stripe from 'stripe';
 import { StripeSync } from 'stripe-replit-sync';
-import { getStripeSecretKey, getStripeWebhookSecret } from './stripeClient';
+import { getStripeSecretKey, getStripeWebhookSecret, getUncachableStripeClient } from './stripeClient';
+import { storage } from './storage';
+import { logger } from './logger';
+import { planForPrice } from './priceCatalog';
+import type { Plan } from '../shared/plans';
 
 let stripeSync: StripeSync | null = null;
 
@@ -20,6 +25,69 @@ async function getStripeSync(): Promise<StripeSync> {
   return stripeSync;
 }
 
+// past_due keeps the paid plan while Stripe retries the card; unpaid,
+// canceled, incomplete and incomplete_expired all fall back to free.
+const PLAN_GRANTING_STATUSES = new Set<Stripe.Subscription.Status>(['active', 'trialing', 'past_due']);
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+// The plan a subscription grants right now. Downgrades scheduled for period
+// end (cancel_at_period_end or a schedule switching price) keep the current
+// price until Stripe applies them, so they take effect on that later event.
+export function planForSubscription(subscription: Stripe.Subscription): Plan {
+  if (!PLAN_GRANTING_STATUSES.has(subscription.status)) return 'free';
+  const priceId = subscription.items.data[0]?.price?.id;
+  return planForPrice(priceId) ?? 'free';
+}
+
+// Finds our user for a Stripe customer: by the stored stripeCustomerId, else
+// by the userId in event or customer metadata (linking the customer on the way)
+async function resolveUserId(customerId: string, metadataUserId?: string | null): Promise<string | null> {
+  const linked = await storage.getUserByStripeCustomerId(customerId);
+  if (linked) return linked.id;
+
+  let userId = metadataUserId ?? null;
+  if (!userId) {
+    const stripe = await getUncachableStripeClient();
+    const customer = await stripe.customers.retrieve(customerId);
+    userId = customer.deleted ? null : customer.metadata?.userId ?? null;
+  }
+  if (!userId || !(await storage.getUser(userId))) return null;
+
+  await storage.updateUserStripeInfo(userId, { stripeCustomerId: customerId });
+  return userId;
+}
+
+// `subscription` must be fresh from the API, not an event payload: Stripe
+// doesn't deliver events in order, and a late customer.subscription.updated
+// would otherwise hand back a plan that a later deletion took away.
+async function applySubscription(subscription: Stripe.Subscription, userId: string) {
+  const user = await storage.getUser(userId);
+  if (!user) return;
+
+  // Events for an older subscription must not clobber a newer one
+  const isCurrent = !user.stripeSubscriptionId || user.stripeSubscriptionId === subscription.id;
+  if (!isCurrent && !PLAN_GRANTING_STATUSES.has(subscription.status)) {
+    logger.info('Ignoring event for superseded subscription', { subscriptionId: subscription.id, status: subscription.status });
+    return;
+  }
+
+  const plan = planForSubscription(subscription);
+  const ended = plan === 'free';
+
+  await storage.updateUserStripeInfo(userId, {
+    stripeCustomerId: idOf(subscription.customer) ?? undefined,
+    stripeSubscriptionId: ended ? null : subscription.id,
+  });
+  if (user.plan !== plan) {
+    await storage.updateUserPlan(userId, plan);
+    logger.info('User plan changed', { userId, from: user.plan, to: plan, subscriptionId: subscription.id, status: subscription.status });
+  }
+}
+
 export class WebhookHandlers {
   static async processWebhook(payload: Buffer, signature: string): Promise<void> {
     // Validate payload is a Buffer
@@ -31,9 +99,58 @@ export class WebhookHandlers {
         'FIX: Ensure webhook route is registered BEFORE app.use(express.json()).'
       );
     }
-    
-    const sync = await getStripeSync();
-    // we dont need to pass the uuid here.
-    await sync.processWebhook(payload, signature, undefined);
+
+    // The one signature check; StripeSync gets the verified event
+    const stripe = await getUncachableStripeClient();
+    const event = stripe.webhooks.constructEvent(payload, signature, await getStripeWebhookSecret());
+
+    // StripeSync only mirrors objects into the stripe.* schema, which the
+    // in-memory backend doesn't have; plan changes on users are derived here
+    if (process.env.STORAGE !== 'memory') {
+      const sync = await getStripeSync();
+      await sync.processEvent(event);
+    }
+    await WebhookHandlers.applyPlanChanges(event);
+  }
+
+  static async applyPlanChanges(event: Stripe.Event): Promise<void> {
+    switch (event.type) {
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted': {
+        const subscription = event.data.object;
+        const customerId = idOf(subscription.customer);
+        if (!customerId) return;
+
+        const userId = await resolveUserId(customerId, subscription.metadata?.userId);
+        if (!userId) {
+          logger.warn('No user for Stripe customer', { customerId, eventType: event.type });
+          return;
+        }
+
+        // Deleted subscriptions stay retrievable, with status canceled
+        const stripe = await getUncachableStripeClient();
+        await applySubscription(await stripe.subscriptions.retrieve(subscription.id), userId);
+        return;
+      }
+
+      case 'checkout.session.completed': {
+        const session = event.data.object;
+        const customerId = idOf(session.customer);
+        const subscriptionId = idOf(session.subscription);
+        if (session.mode !== 'subscription' || !customerId || !subscriptionId) return;
+
+        const userId = await resolveUserId(customerId, session.client_reference_id ?? session.metadata?.userId);
+        if (!userId) {
+          logger.warn('No user for checkout session', { sessionId: session.id });
+          return;
+        }
+
+        const stripe = await getUncachableStripeClient();
+        const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+        await applySubscription(subscription, userId);
+        return;
+      }
+    }
   }
 }
@@ -0,0 +1,77 @@
+export const plans = ["free", "plus", "pro"] as const;
+export type Plan = (typeof plans)[number];
+
+export interface Entitlements {
+  // Built-in persona ids the plan may chat with, or "all"
+  personas: "all" | string[];
+  customPersonas: number;
+  // Messages sent per UTC day; null means unlimited
+  dailyMessages: number | null;
+  maxContextTokens: number;
+  // Long-term memory entries kept per user
+  memoryEntries: number;
+  // Largest single attachment upload, in bytes
+  maxAttachmentBytes: number;
+  // Conversations one bulk title regeneration request may retitle
+  titleRegenerationBatch: number;
+  // Conversations one import request may create
+  importConversations: number;
+  apiAccess: boolean;
+}
+
+// Single source of truth for what each plan unlocks (see STRIPE_SETUP.md)
+export const entitlements: Record<Plan, Entitlements> = {
+  free: {
+    personas: ["general", "coder", "writer", "tutor"],
+    customPersonas: 0,
+    dailyMessages: 50,
+    maxContextTokens: 8_000,
+    memoryEntries: 20,
+    maxAttachmentBytes: 5 * 1024 * 1024,
+    titleRegenerationBatch: 5,
+    importConversations: 25,
+    apiAccess: false,
+  },
+  plus: {
+    personas: "all",
+    customPersonas: 10,
+    dailyMessages: 500,
+    maxContextTokens: 32_000,
+    memoryEntries: 100,
+    maxAttachmentBytes: 20 * 1024 * 1024,
+    titleRegenerationBatch: 25,
+    importConversations: 200,
+    apiAccess: false,
+  },
+  pro: {
+    personas: "all",
+    customPersonas: 50,
+    dailyMessages: null,
+    maxContextTokens: 128_000,
+    memoryEntries: 500,
+    maxAttachmentBytes: 50 * 1024 * 1024,
+    titleRegenerationBatch: 100,
+    importConversations: 1000,
+    apiAccess: true,
+  },
+};
+
+// users.plan is a free-form varchar; anything unrecognised is treated as free
+export function normalizePlan(plan: string | null | undefined): Plan {
+  const lowered = plan?.toLowerCase();
+  return plans.find(p => p === lowered) ?? "free";
+}
+
+export function getEntitlements(plan: string | null | undefined): Entitlements {
+  return entitlements[normalizePlan(plan)];
+}
+
+export function canUsePersona(plan: string | null | undefined, personaId: string): boolean {
+  const allowed = getEntitlements(plan).personas;
+  return allowed === "all" || allowed.includes(personaId);
+}
+
+// Cheapest plan satisfying the check, or null if no plan does
+export function cheapestPlanWhere(check: (entitlements: Entitlements) => boolean): Plan | null {
+  return plans.find(p => check(entitlements[p])) ?? null;
+}
@@ -1,18 +1,163 @@
-import { Router } from "express";
-import { promptTemplates } from "../shared/promptTemplates";
+import { z } from "zod";
 
-export function createPromptTemplatesRouter() {
-  const router = Router();
+// Placeholders look like {{topic}}; names are identifiers
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
 
-  router.get("/", (_req, res) => {
-    res.json(promptTemplates);
-  });
+const variableName = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Variable names must be identifiers");
+const variableLabel = z.string().trim().max(100).optional();
 
-  router.get("/:id", (req, res) => {
-    const template = promptTemplates.find(t => t.id === req.params.id);
-    if (!template) return res.status(404).json({ error: "Template not found" });
-    res.json(template);
-  });
+export const templateVariableSchema = z.discriminatedUnion("type", [
+  z.object({
+    name: variableName,
+    type: z.literal("string"),
+    label: variableLabel,
+    required: z.boolean().default(true),
+    default: z.string().optional(),
+    maxLength: z.number().int().min(1).max(10000).optional(),
+  }),
+  z.object({
+    name: variableName,
+    type: z.literal("number"),
+    label: variableLabel,
+    required: z.boolean().default(true),
+    default: z.number().optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  }),
+  z.object({
+    name: variableName,
+    type: z.literal("enum"),
+    label: variableLabel,
+    required: z.boolean().default(true),
+    default: z.string().optional(),
+    options: z.array(z.string().min(1).max(100)).min(1).max(50),
+  }),
+]);
+
+export type TemplateVariable = z.infer<typeof templateVariableSchema>;
+
+export interface PromptTemplate {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  template: string;
+  variables: TemplateVariable[];
+}
+
+export const promptTemplates: PromptTemplate[] = [
+  {
+    id: "explain-topic",
+    title: "Explain a topic",
+    description: "A clear explanation pitched at the level you choose.",
+    category: "learning",
+    template: "Explain {{topic}} to a {{level}} audience. Use one concrete example and finish with a one-sentence summary.",
+    variables: [
+      { name: "topic", type: "string", label: "Topic", required: true, maxLength: 200 },
+      { name: "level", type: "enum", label: "Level", required: true, options: ["beginner", "intermediate", "expert"], default: "beginner" },
+    ],
+  },
+  {
+    id: "rewrite-tone",
+    title: "Rewrite in a different tone",
+    description: "Keeps the meaning of your text and changes how it sounds.",
+    category: "writing",
+    template: "Rewrite the following text in a {{tone}} tone. Keep the meaning and roughly the same length.\n\n{{text}}",
+    variables: [
+      { name: "tone", type: "enum", label: "Tone", required: true, options: ["friendly", "formal", "persuasive", "concise", "playful"] },
+      { name: "text", type: "string", label: "Text", required: true, maxLength: 8000 },
+    ],
+  },
+  {
+    id: "blog-outline",
+    title: "Blog post outline",
+    description: "Headings and key points for a post on any subject.",
+    category: "writing",
+    template: "Create an outline for a blog post about {{topic}} with {{sections}} sections. The readers are {{audience}}. Suggest a title and one key point per section.",
+    variables: [
+      { name: "topic", type: "string", label: "Topic", required: true, maxLength: 200 },
+      { name: "sections", type: "number", label: "Sections", required: true, min: 2, max: 12, default: 5 },
+      { name: "audience", type: "string", label: "Audience", required: false, default: "a general audience", maxLength: 200 },
+    ],
+  },
+  {
+    id: "code-review",
+    title: "Review my code",
+    description: "Bugs, edge cases and readability notes for a snippet.",
+    category: "coding",
+    template: "Review this {{language}} code. List bugs first, then edge cases, then readability suggestions.\n\n```{{language}}\n{{code}}\n```",
+    variables: [
+      { name: "language", type: "string", label: "Language", required: true, maxLength: 50 },
+      { name: "code", type: "string", label: "Code", required: true, maxLength: 10000 },
+    ],
+  },
+  {
+    id: "meal-plan",
+    title: "Weekly meal plan",
+    description: "Simple meals for the week with a shopping list.",
+    category: "lifestyle",
+    template: "Plan {{days}} days of dinners for a {{diet}} diet. Keep each recipe under 45 minutes and end with a combined shopping list.",
+    variables: [
+      { name: "days", type: "number", label: "Days", required: true, min: 1, max: 14, default: 7 },
+      { name: "diet", type: "enum", label: "Diet", required: true, options: ["balanced", "vegetarian", "vegan", "low-carb", "gluten-free"], default: "balanced" },
+    ],
+  },
+];
+
+export function placeholdersIn(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER), match => match[1])));
+}
+
+// Problems with a template definition, or an empty list when it is usable
+export function checkTemplate(template: string, variables: TemplateVariable[]): string[] {
+  const problems: string[] = [];
+  const names = variables.map(v => v.name);
 
-  return router;
+  for (const name of names.filter((name, index) => names.indexOf(name) !== index)) {
+    problems.push(`Variable "${name}" is declared more than once`);
+  }
+  for (const name of placeholdersIn(template)) {
+    if (!names.includes(name)) problems.push(`Placeholder {{${name}}} has no declared variable`);
+  }
+  for (const variable of variables) {
+    if (variable.type === "enum" && variable.default !== undefined && !variable.options.includes(variable.default)) {
+      problems.push(`Default for "${variable.name}" is not one of its options`);
+    }
+  }
+  return problems;
+}
+
+function valueSchema(variable: TemplateVariable): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+  switch (variable.type) {
+    case "string":
+      schema = z.string().max(variable.maxLength ?? 4000);
+      break;
+    case "number": {
+      let number = z.coerce.number();
+      if (variable.min !== undefined) number = number.min(variable.min);
+      if (variable.max !== undefined) number = number.max(variable.max);
+      schema = number;
+      break;
+    }
+    case "enum":
+      schema = z.enum(variable.options as [string, ...string[]]);
+      break;
+  }
+
+  if (variable.default !== undefined) return schema.default(variable.default);
+  return variable.required ? schema : schema.optional();
+}
+
+// Zod schema for the values a render request must supply
+export function valuesSchema(variables: TemplateVariable[]) {
+  return z.object(Object.fromEntries(variables.map(v => [v.name, valueSchema(v)]))).strict();
+}
+
+// Fills placeholders; optional variables without a value render as empty text
+export function fillTemplate(template: string, values: Record<string, unknown>): string {
+  return template.replace(PLACEHOLDER, (_match, name: string) => {
+    const value = values[name];
+    return value === undefined || value === null ? "" : String(value);
+  });
 }
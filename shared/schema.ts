@@ -1,12 +1,368 @@
-import { Router } from "express";
-import * as schema from "../shared/schema";
+import { sql } from "drizzle-orm";
+import {
+  type AnyPgColumn,
+  bigint,
+  boolean,
+  date,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { templateVariableSchema, type TemplateVariable } from "./promptTemplates";
 
-export function createSchemaRouter() {
-  const router = Router();
+// Session storage table (used by connect-pg-simple)
+export const sessions = pgTable(
+  "sessions",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: jsonb("sess").notNull(),
+    expire: timestamp("expire").notNull(),
+  },
+  (table) => [index("IDX_session_expire").on(table.expire)],
+);
 
-  router.get("/", (_req, res) => {
-    res.json(schema);
-  });
+export type Reaction = { emoji: string; userId: string };
 
-  return router;
-}
+// "partial" marks an assistant reply cut short by a client disconnect,
+// "error" one that failed upstream after streaming started.
+export const messageStatuses = ["complete", "partial", "error"] as const;
+export type MessageStatus = (typeof messageStatuses)[number];
+
+// Users
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: varchar("email").unique(),
+  firstName: varchar("first_name"),
+  lastName: varchar("last_name"),
+  profileImageUrl: varchar("profile_image_url"),
+  plan: varchar("plan").notNull().default("free"),
+  memory: text("memory").array().notNull().default(sql`'{}'::text[]`),
+  preferences: jsonb("preferences").$type<Record<string, any>>().notNull().default({}),
+  stripeCustomerId: varchar("stripe_customer_id"),
+  stripeSubscriptionId: varchar("stripe_subscription_id"),
+  // Local (email and password) sign-in; null for accounts that only use OIDC
+  passwordHash: text("password_hash"),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_users_stripe_customer").on(table.stripeCustomerId)]);
+
+export type UpsertUser = typeof users.$inferInsert;
+export type User = typeof users.$inferSelect;
+
+// Placeholder title until one is generated after the first exchange
+export const DEFAULT_CONVERSATION_TITLE = "New chat";
+
+// Conversations (and messages) also have a generated "search_vector" tsvector
+// column with a GIN index, added in migration 0006 and queried with raw SQL
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  title: text("title").notNull().default(DEFAULT_CONVERSATION_TITLE),
+  // Set when the user names the conversation; automatic titling leaves it alone
+  titleLocked: boolean("title_locked").notNull().default(false),
+  persona: varchar("persona").notNull().default("general"),
+  // Leaf of the branch currently shown; getMessages walks up from here
+  activeMessageId: varchar("active_message_id").references((): AnyPgColumn => messages.id, {
+    onDelete: "set null",
+  }),
+  // Rolling summary of turns that no longer fit the context window, covering
+  // the branch up to and including summaryThroughId
+  summary: text("summary"),
+  summaryThroughId: varchar("summary_through_id").references((): AnyPgColumn => messages.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertConversationSchema = createInsertSchema(conversations, {
+  title: (schema) => schema.trim().min(1).max(200),
+}).pick({
+  title: true,
+  persona: true,
+});
+
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+
+// Messages form a tree per conversation: editing or regenerating a turn adds
+// a sibling under the same parent instead of overwriting history.
+export const messages = pgTable("messages", {
+  id: varchar("id").primaryKey(),
+  conversationId: varchar("conversation_id")
+    .notNull()
+    .references(() => conversations.id, { onDelete: "cascade" }),
+  parentId: varchar("parent_id").references((): AnyPgColumn => messages.id, { onDelete: "cascade" }),
+  role: text("role").notNull(),
+  content: text("content").notNull(),
+  imageUrl: text("image_url"),
+  // Uploaded attachments (see attachments); edits carry them over to the new branch
+  attachmentIds: text("attachment_ids").array().notNull().default(sql`'{}'::text[]`),
+  isPinned: text("is_pinned").notNull().default("false"),
+  reactions: jsonb("reactions").$type<Reaction[]>().notNull().default([]),
+  status: text("status", { enum: messageStatuses }).notNull().default("complete"),
+  editedAt: timestamp("edited_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_messages_conversation").on(table.conversationId),
+  index("IDX_messages_parent").on(table.parentId),
+]);
+
+// createdAt stays settable so imports can keep original timestamps
+export const insertMessageSchema = createInsertSchema(messages).omit({
+  id: true,
+  editedAt: true,
+});
+
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type Message = typeof messages.$inferSelect;
+
+// Sharing level for user-created personas and prompt templates. "unlisted"
+// items can be opened by id but stay out of public listings.
+export const visibilities = ["private", "unlisted", "public"] as const;
+export type Visibility = (typeof visibilities)[number];
+
+// Custom personas
+export const customPersonas = pgTable("custom_personas", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  systemPrompt: text("system_prompt").notNull(),
+  avatar: text("avatar"),
+  // Model to request instead of the provider's default
+  model: varchar("model"),
+  visibility: text("visibility", { enum: visibilities }).notNull().default("private"),
+  forkedFromId: varchar("forked_from_id").references((): AnyPgColumn => customPersonas.id, {
+    onDelete: "set null",
+  }),
+  forkCount: integer("fork_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [index("IDX_custom_personas_visibility").on(table.visibility)]);
+
+export const insertCustomPersonaSchema = createInsertSchema(customPersonas, {
+  name: (schema) => schema.trim().min(1).max(60),
+  description: (schema) => schema.trim().max(280),
+  systemPrompt: (schema) => schema.trim().min(1).max(8000),
+  // An emoji, an icon name or an image URL
+  avatar: (schema) => schema.trim().max(2048),
+  model: (schema) => schema.trim().min(1).max(100).regex(/^[\w.:\/-]+$/, "Invalid model name"),
+}).omit({
+  id: true,
+  userId: true,
+  forkedFromId: true,
+  forkCount: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertCustomPersona = z.infer<typeof insertCustomPersonaSchema>;
+export type CustomPersona = typeof customPersonas.$inferSelect;
+
+// Per-user daily usage counters backing plan quotas
+export const usageCounters = pgTable(
+  "usage_counters",
+  {
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    day: date("day").notNull(),
+    messages: integer("messages").notNull().default(0),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.day] })],
+);
+
+export type UsageCounter = typeof usageCounters.$inferSelect;
+
+// A shared message as frozen into a share link's snapshot
+export type SharedMessage = {
+  role: "user" | "assistant";
+  content: string;
+  imageUrl: string | null;
+  createdAt: string;
+};
+
+// Public share links. Each link freezes the conversation's active branch when
+// it is created, so later edits and deletions don't change what viewers see.
+export const shareLinks = pgTable("share_links", {
+  id: varchar("id").primaryKey(),
+  // Unguessable public token used in the share URL
+  token: varchar("token").notNull().unique(),
+  conversationId: varchar("conversation_id")
+    .notNull()
+    .references(() => conversations.id, { onDelete: "cascade" }),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  persona: varchar("persona").notNull(),
+  messages: jsonb("messages").$type<SharedMessage[]>().notNull(),
+  viewCount: integer("view_count").notNull().default(0),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("IDX_share_links_conversation").on(table.conversationId)]);
+
+export type InsertShareLink = Omit<typeof shareLinks.$inferInsert, "id" | "token" | "viewCount" | "revokedAt" | "createdAt">;
+export type ShareLink = typeof shareLinks.$inferSelect;
+
+// User-owned prompt templates. The row holds the current version; every
+// version, including the current one, is kept in prompt_template_versions.
+export const userPromptTemplates = pgTable("prompt_templates", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  description: text("description").notNull().default(""),
+  category: varchar("category").notNull().default("custom"),
+  template: text("template").notNull(),
+  variables: jsonb("variables").$type<TemplateVariable[]>().notNull().default([]),
+  version: integer("version").notNull().default(1),
+  visibility: text("visibility", { enum: visibilities }).notNull().default("private"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_prompt_templates_user").on(table.userId),
+  index("IDX_prompt_templates_visibility").on(table.visibility),
+]);
+
+export const promptTemplateVersions = pgTable(
+  "prompt_template_versions",
+  {
+    templateId: varchar("template_id")
+      .notNull()
+      .references(() => userPromptTemplates.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    template: text("template").notNull(),
+    variables: jsonb("variables").$type<TemplateVariable[]>().notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.templateId, table.version] })],
+);
+
+export const insertPromptTemplateSchema = createInsertSchema(userPromptTemplates, {
+  title: (schema) => schema.trim().min(1).max(120),
+  description: (schema) => schema.trim().max(500),
+  category: (schema) => schema.trim().min(1).max(40),
+  template: (schema) => schema.min(1).max(20000),
+  variables: () => z.array(templateVariableSchema).max(30),
+}).omit({
+  id: true,
+  userId: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+export type UserPromptTemplate = typeof userPromptTemplates.$inferSelect;
+export type PromptTemplateVersion = typeof promptTemplateVersions.$inferSelect;
+
+// "image" attachments are sent to vision models, "text" ones are inlined into the prompt
+export const attachmentKinds = ["image", "text"] as const;
+export type AttachmentKind = (typeof attachmentKinds)[number];
+
+// Uploaded files. The bytes live in the configured file store under storageKey;
+// images are re-encoded without EXIF and get a thumbnail.
+export const attachments = pgTable("attachments", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  kind: text("kind", { enum: attachmentKinds }).notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: varchar("mime_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: varchar("storage_key").notNull(),
+  thumbnailKey: varchar("thumbnail_key"),
+  width: integer("width"),
+  height: integer("height"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("IDX_attachments_user").on(table.userId)]);
+
+export type InsertAttachment = Omit<typeof attachments.$inferInsert, "id" | "createdAt">;
+export type Attachment = typeof attachments.$inferSelect;
+
+// Fixed-window rate limit counters shared by every app instance. Windows are
+// epoch milliseconds taken from the database clock, so replicas agree on them.
+export const rateLimits = pgTable("rate_limits", {
+  // "<policy>:user:<id>" or "<policy>:ip:<address>"
+  key: varchar("key").primaryKey(),
+  windowStart: bigint("window_start", { mode: "number" }).notNull(),
+  expiresAt: bigint("expires_at", { mode: "number" }).notNull(),
+  count: integer("count").notNull().default(0),
+}, (table) => [index("IDX_rate_limits_expires").on(table.expiresAt)]);
+
+// External sign-ins linked to a user: one row per OIDC issuer account (or dev
+// login). Local sign-in uses the email and password on the users row instead.
+export const authIdentities = pgTable("auth_identities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Provider name from AUTH_PROVIDERS, e.g. "replit" or "oidc"
+  provider: varchar("provider").notNull(),
+  // The issuer's subject identifier for the account
+  subject: varchar("subject").notNull(),
+  email: varchar("email"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_auth_identities_provider_subject").on(table.provider, table.subject),
+  index("IDX_auth_identities_user").on(table.userId),
+]);
+
+export type AuthIdentity = typeof authIdentities.$inferSelect;
+export type InsertAuthIdentity = typeof authIdentities.$inferInsert;
+
+export const authTokenPurposes = ["verify_email", "reset_password"] as const;
+export type AuthTokenPurpose = (typeof authTokenPurposes)[number];
+
+// Single-use tokens mailed for email verification and password resets. Only a
+// SHA-256 hash is stored; the token itself exists in the mail alone.
+export const authTokens = pgTable("auth_tokens", {
+  tokenHash: varchar("token_hash").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: varchar("purpose").$type<AuthTokenPurpose>().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("IDX_auth_tokens_user").on(table.userId)]);
+
+export type AuthToken = typeof authTokens.$inferSelect;
+
+// What an API key may do: send chat messages (and start conversations), read
+// conversations and their messages, and use and manage custom personas
+export const apiKeyScopes = ["chat", "conversations:read", "personas"] as const;
+export type ApiKeyScope = (typeof apiKeyScopes)[number];
+
+// Personal API keys for bearer-token access. Only a SHA-256 hash of the key is
+// stored; the prefix is kept so owners can tell their keys apart.
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // The key's first characters, e.g. "fizz_k3Xa9"
+  prefix: varchar("prefix").notNull(),
+  keyHash: varchar("key_hash").notNull().unique(),
+  scopes: text("scopes").array().$type<ApiKeyScope[]>().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("IDX_api_keys_user").on(table.userId)]);
+
+export const insertApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(apiKeyScopes)).min(1).transform(scopes => Array.from(new Set(scopes))),
+});
+
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;